@@ -0,0 +1,40 @@
+'use client';
+
+import Link from 'next/link';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { AllowanceManager } from '@/components/AllowanceManager';
+
+export default function AllowancesPage() {
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-950">
+      {/* Header */}
+      <header className="border-b border-gray-800 p-4 flex justify-between items-center">
+        <Link href="/" className="text-2xl font-bold text-white">
+          SwapWright
+        </Link>
+        <ConnectButton />
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="space-y-2">
+            <h2 className="text-3xl font-bold text-white">Approvals</h2>
+            <p className="text-gray-400">
+              Every approval you have given a router or Permit2 for the tokens SwapWright supports and the ones you
+              imported. Unlimited
+              approvals let a contract take your whole balance; stale ones cover tokens you no longer hold.
+              Revoke or reduce anything you do not need.
+            </p>
+          </div>
+
+          <AllowanceManager />
+
+          <Link href="/" className="inline-block text-sm text-gray-400 hover:text-white transition-colors">
+            ← Back to swaps
+          </Link>
+        </div>
+      </main>
+    </div>
+  );
+}
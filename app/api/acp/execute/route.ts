@@ -3,6 +3,7 @@
 import { NextRequest } from 'next/server';
 import { ACPSwapRequest, ACPSwapResponse } from '@/lib/acp-types';
 import { checkRateLimit, logSecurityEvent } from '@/lib/security';
+import { SUPPORTED_TOKEN_SYMBOLS, isSupportedToken } from '@/lib/tokens';
 
 export async function POST(request: NextRequest) {
   const ip = request.headers.get('x-forwarded-for') || 'unknown';
@@ -46,7 +47,7 @@ export async function POST(request: NextRequest) {
       return Response.json(errorResponse, { status: 400 });
     }
 
-    const { tokenIn, tokenOut, amount, slippage } = acpRequest.parameters;
+    const { tokenIn, tokenOut, amount, slippage, userWallet } = acpRequest.parameters;
 
     // Validate parameters
     if (!tokenIn || !tokenOut || !amount) {
@@ -63,15 +64,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate tokens
-    const SUPPORTED_TOKENS = ['ETH', 'WETH', 'USDC', 'USDBC'];
-    if (!SUPPORTED_TOKENS.includes(tokenIn) || !SUPPORTED_TOKENS.includes(tokenOut)) {
+    if (!isSupportedToken(tokenIn) || !isSupportedToken(tokenOut)) {
       const errorResponse: ACPSwapResponse = {
         requestId: acpRequest.requestId,
         status: 'error',
         timestamp: new Date().toISOString(),
         error: {
           code: 'UNSUPPORTED_TOKEN',
-          message: `Unsupported tokens. Supported: ${SUPPORTED_TOKENS.join(', ')}`,
+          message: `Unsupported tokens. Supported: ${SUPPORTED_TOKEN_SYMBOLS.join(', ')}`,
           details: { tokenIn, tokenOut },
         },
       };
@@ -94,6 +94,12 @@ export async function POST(request: NextRequest) {
         tokenOut,
         amountIn: amount, // API expects 'amountIn' not 'amount'
         slippage: slippage || 0.5,
+        // Binds the quote ticket to the wallet the swap will be built for
+        recipient: userWallet || acpRequest.agentWallet || undefined,
+        // Agents can shorten or extend the swap deadline via metadata.timeout (ms)
+        deadlineSeconds: acpRequest.metadata?.timeout
+          ? Math.floor(acpRequest.metadata.timeout / 1000)
+          : undefined,
       }),
     });
 
@@ -124,7 +130,13 @@ export async function POST(request: NextRequest) {
           minOutput: quoteData.minOutput,
           estimatedGas: quoteData.estimatedGas,
           route: quoteData.route || `${tokenIn} → ${tokenOut}`,
-          priceImpact: quoteData.priceImpact,
+          priceImpact: quoteData.priceImpact ?? undefined,
+          midPrice: quoteData.midPrice ?? undefined,
+          executionPrice: quoteData.executionPrice,
+          venue: quoteData.venue,
+          quoteId: quoteData.quoteId,
+          quoteTicket: quoteData.quoteTicket,
+          deadline: quoteData.deadline,
         },
       },
     };
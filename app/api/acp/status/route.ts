@@ -1,6 +1,8 @@
 // ACP Service Status Endpoint
 
 import { ACPServiceStatus } from '@/lib/acp-types';
+import { getQuoteCacheStats } from '@/lib/quote-service';
+import { SUPPORTED_TOKEN_SYMBOLS } from '@/lib/tokens';
 
 const startTime = Date.now();
 
@@ -11,7 +13,8 @@ export async function GET() {
     version: '1.0.0',
     uptime: Date.now() - startTime,
     network: 'base-mainnet',
-    supportedTokens: ['ETH', 'WETH', 'USDC', 'USDBC'],
+    supportedTokens: SUPPORTED_TOKEN_SYMBOLS,
+    quoteCache: getQuoteCacheStats(),
     limits: {
       maxSwapAmount: '1000', // ETH equivalent
       minSwapAmount: '0.0001',
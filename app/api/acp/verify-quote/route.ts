@@ -0,0 +1,57 @@
+// ACP Quote Verification - lets agents confirm a quote ticket was issued by SwapWright and read its terms
+
+import { NextRequest } from 'next/server';
+import { ACPQuoteVerification } from '@/lib/acp-types';
+import { verifyQuoteTicket } from '@/lib/quote-ticket';
+import { checkRateLimit, logSecurityEvent } from '@/lib/security';
+
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+
+  // Rate limiting
+  const rateLimit = checkRateLimit(ip, 30, 60000);
+  if (!rateLimit.allowed) {
+    logSecurityEvent({
+      type: 'rate_limit',
+      identifier: ip,
+      reason: 'ACP verify-quote rate limit exceeded',
+    });
+    const response: ACPQuoteVerification = {
+      valid: false,
+      error: 'Too many requests from your agent. Please retry in 60 seconds.',
+    };
+    return Response.json(response, { status: 429 });
+  }
+
+  try {
+    const { quoteTicket } = await request.json();
+    const ticket = verifyQuoteTicket(quoteTicket);
+
+    const response: ACPQuoteVerification = {
+      valid: true,
+      expired: ticket.expiresAt <= Math.floor(Date.now() / 1000),
+      quote: {
+        quoteId: ticket.id,
+        venue: ticket.venue,
+        tradeType: ticket.tradeType,
+        tokenIn: ticket.tokenIn,
+        tokenOut: ticket.tokenOut,
+        amountIn: ticket.amountIn,
+        amountOut: ticket.amountOut,
+        minOutput: ticket.minOutput,
+        maxInput: ticket.maxInput,
+        slippage: ticket.slippage * 100,
+        recipient: ticket.recipient,
+        issuedAt: ticket.issuedAt,
+        expiresAt: ticket.expiresAt,
+      },
+    };
+    return Response.json(response);
+  } catch (error) {
+    const response: ACPQuoteVerification = {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Invalid quote ticket',
+    };
+    return Response.json(response, { status: 400 });
+  }
+}
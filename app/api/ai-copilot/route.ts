@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { getEnhancedCopilotResponse, Message, SwapContext } from '@/lib/ai-copilot-enhanced';
 import { checkRateLimit, logSecurityEvent } from '@/lib/security';
+import { sanitizeImportedTokens } from '@/lib/custom-tokens';
 
 export async function POST(request: NextRequest) {
   const ip = request.headers.get('x-forwarded-for') || 'unknown';
@@ -36,6 +37,7 @@ export async function POST(request: NextRequest) {
 
     // Validate swap context
     const context: SwapContext = swapContext || {};
+    context.importedTokens = sanitizeImportedTokens(context.importedTokens);
 
     const response = await getEnhancedCopilotResponse(message, history, context);
 
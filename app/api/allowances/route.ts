@@ -0,0 +1,64 @@
+import { isAddress } from "viem";
+import { checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { getBaseClient } from "@/lib/rpc-provider";
+import { scanAllowances } from "@/lib/allowances";
+import { verifyTokenImportGrants } from "@/lib/custom-tokens";
+import type { TokenInfo } from "@/lib/tokens";
+
+/**
+ * Scan a wallet's allowances for every registry token against every known spender
+ * Body: { owner, importGrants? }
+ * importGrants are the wallet's token import grants, so allowances on its imported tokens are scanned too
+ * Returns the live allowances, each flagged unlimited and/or stale
+ */
+export async function POST(req: Request) {
+  try {
+    const { owner, importGrants } = await req.json();
+
+    // Rate limiting (one large multicall per scan)
+    const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+    const rateLimit = checkRateLimit(ip, 10, 60000); // 10 scans per minute
+    if (!rateLimit.allowed) {
+      logSecurityEvent({
+        type: 'rate_limit',
+        identifier: ip,
+        reason: 'Allowance scan rate limit exceeded',
+      });
+      return Response.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+        { status: 429 }
+      );
+    }
+
+    if (typeof owner !== "string" || !isAddress(owner)) {
+      return Response.json({ error: "Invalid wallet address" }, { status: 400 });
+    }
+
+    let importedTokens: TokenInfo[];
+    try {
+      importedTokens = verifyTokenImportGrants(importGrants, owner, { allowExpired: true });
+    } catch (error) {
+      logSecurityEvent({
+        type: 'token_import',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid token import grant',
+        metadata: { owner },
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid token import" }, { status: 403 });
+    }
+
+    const allowances = await scanAllowances(getBaseClient(), owner, importedTokens);
+
+    return Response.json({
+      owner,
+      allowances,
+      scannedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error("allowances scan failed:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to scan allowances" },
+      { status: 500 }
+    );
+  }
+}
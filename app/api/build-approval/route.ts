@@ -1,31 +1,98 @@
 import { encodeFunctionData, maxUint256 } from "viem";
+import { ERC20_ABI, UNISWAP_CONTRACTS } from "@/lib/uniswap";
+import { checkRateLimit, logSecurityEvent, validateApprovalAddresses } from "@/lib/security";
+import { verifyQuoteTicketFor, QuoteTicket } from "@/lib/quote-ticket";
 
-const ERC20_ABI = [
-  {
-    name: "approve",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [{ name: "", type: "bool" }],
-  },
-] as const;
-
+/**
+ * Build an ERC-20 approve transaction
+ * Body: { tokenSymbol, spenderAddress, amount?, unlimited?, quoteTicket?, from? }
+ * The token is derived from the registry (or the ticket's imported tokens) and the spender must be on
+ * the allowlist. Router approvals cover at most the quoted swap, which needs the ticket; only an explicit
+ * unlimited flag (the user picking "Unlimited" in the approval step) lifts that. Permit2 takes any
+ * amount, since every swap it funds is bounded by its own signed permit
+ */
 export async function POST(req: Request) {
   try {
-    const { tokenAddress, spenderAddress, amount } = await req.json();
+    const { tokenSymbol, spenderAddress, amount, unlimited, quoteTicket, from } = await req.json();
 
-    if (!tokenAddress || !spenderAddress) {
+    // Rate limiting
+    const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+    const rateLimit = checkRateLimit(ip, 20, 60000); // 20 approvals per minute
+    if (!rateLimit.allowed) {
+      logSecurityEvent({
+        type: 'rate_limit',
+        identifier: ip,
+        reason: 'Approval build rate limit exceeded',
+      });
+      return Response.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+        { status: 429 }
+      );
+    }
+
+    if (typeof tokenSymbol !== "string" || typeof spenderAddress !== "string") {
       return Response.json(
         { error: "Missing required parameters" },
         { status: 400 }
       );
     }
 
-    // Use max approval for simplicity (user only approves once)
-    const approvalAmount = amount ? BigInt(amount) : maxUint256;
+    // Imported tokens and the default amount come from the signed ticket, never from the client
+    let ticket: QuoteTicket | null = null;
+    if (quoteTicket !== undefined && quoteTicket !== null) {
+      try {
+        ticket = verifyQuoteTicketFor(quoteTicket, String(from));
+        if (ticket.tokenIn !== tokenSymbol) {
+          throw new Error('Quote ticket was issued for a different token');
+        }
+      } catch (error) {
+        logSecurityEvent({
+          type: 'invalid_quote_ticket',
+          identifier: ip,
+          reason: error instanceof Error ? error.message : 'Invalid quote ticket',
+          metadata: { tokenSymbol, from }
+        });
+        return Response.json({ error: error instanceof Error ? error.message : "Invalid quote ticket" }, { status: 403 });
+      }
+    }
+    const importedTokens = ticket?.importedTokens ?? [];
+
+    let tokenAddress: `0x${string}`;
+    try {
+      tokenAddress = validateApprovalAddresses({ tokenSymbol, spender: spenderAddress, importedTokens });
+    } catch (error) {
+      logSecurityEvent({
+        type: 'invalid_contract',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid approval',
+        metadata: { tokenSymbol, spenderAddress, from }
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid approval" }, { status: 403 });
+    }
+
+    let requested: bigint | null = null;
+    if (amount !== undefined && amount !== null) {
+      if (typeof amount !== "string" || !/^\d+$/.test(amount) || BigInt(amount) === 0n || BigInt(amount) > maxUint256) {
+        return Response.json({ error: "Invalid approval amount" }, { status: 400 });
+      }
+      requested = BigInt(amount);
+    }
+
+    // The most the quoted swap can pull
+    const quotedAmount = ticket ? BigInt(ticket.tradeType === "exactOutput" ? ticket.maxInput : ticket.amountIn) : null;
+    const isPermit2 = spenderAddress.toLowerCase() === UNISWAP_CONTRACTS.Permit2.toLowerCase();
+
+    let approvalAmount: bigint;
+    if (unlimited === true) {
+      approvalAmount = maxUint256;
+    } else if (isPermit2 && requested !== null) {
+      approvalAmount = requested;
+    } else if (quotedAmount !== null) {
+      // Router approvals never exceed the quoted swap without the explicit unlimited flag
+      approvalAmount = requested !== null && requested < quotedAmount ? requested : quotedAmount;
+    } else {
+      return Response.json({ error: "Provide a quote ticket, or approve unlimited explicitly" }, { status: 400 });
+    }
 
     const approvalCalldata = encodeFunctionData({
       abi: ERC20_ABI,
@@ -37,6 +104,7 @@ export async function POST(req: Request) {
       to: tokenAddress,
       data: approvalCalldata,
       value: "0",
+      amount: approvalAmount.toString(),
     });
   } catch (error) {
     console.error("build-approval failed:", error);
@@ -0,0 +1,115 @@
+import { isAddress } from "viem";
+import { checkRateLimit, deriveTokenAddress, logSecurityEvent } from "@/lib/security";
+import { verifyQuoteTicketFor, QuoteTicket } from "@/lib/quote-ticket";
+import { getBaseClient } from "@/lib/rpc-provider";
+import {
+  buildPermitSingle,
+  getPermit2ApprovalState,
+  getPermitTypedData,
+  issuePermit,
+  supportsPermit2,
+} from "@/lib/permit2";
+import { buildErc2612Permit, detectErc2612Support, getErc2612TypedData, issueErc2612Permit } from "@/lib/erc2612";
+
+/**
+ * Approval requirements for a quote: a live Permit2 allowance, then an existing Permit2 approval,
+ * then the token's own EIP-2612 permit, then a Permit2 approval
+ * Body: { quoteTicket, from }
+ * Returns { method: "approve" } when neither applies (or the router is already approved), otherwise
+ * the method and state and, when a signature is needed, the typed data to sign plus its sealed copy
+ */
+export async function POST(req: Request) {
+  try {
+    const { quoteTicket, from } = await req.json();
+
+    // Rate limiting
+    const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+    const rateLimit = checkRateLimit(ip, 20, 60000); // 20 permit checks per minute
+    if (!rateLimit.allowed) {
+      logSecurityEvent({
+        type: 'rate_limit',
+        identifier: ip,
+        reason: 'Permit build rate limit exceeded',
+      });
+      return Response.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+        { status: 429 }
+      );
+    }
+
+    if (typeof from !== "string" || !isAddress(from)) {
+      return Response.json({ error: "Invalid wallet address" }, { status: 400 });
+    }
+
+    // Token and amount come from the signed ticket, never from the client
+    let ticket: QuoteTicket;
+    try {
+      ticket = verifyQuoteTicketFor(quoteTicket, from);
+    } catch (error) {
+      logSecurityEvent({
+        type: 'invalid_quote_ticket',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid quote ticket',
+        metadata: { from }
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid quote ticket" }, { status: 403 });
+    }
+
+    // SwapRouter02 redeems token permits with selfPermit, split swaps included
+    const canPermit2 = supportsPermit2(ticket);
+    const canSelfPermit = ticket.venue === "uniswap-v3" && ticket.tokenIn !== "ETH";
+    if (!canPermit2 && !canSelfPermit) {
+      return Response.json({ method: "approve" });
+    }
+
+    const importedTokens = ticket.importedTokens ?? [];
+    const token = deriveTokenAddress(ticket.tokenIn, importedTokens) as `0x${string}`;
+    // The most the swap can pull: the input for exact input, the slippage ceiling for exact output
+    const amount = BigInt(ticket.tradeType === "exactOutput" ? ticket.maxInput : ticket.amountIn);
+
+    const client = getBaseClient();
+    const [state, erc2612] = await Promise.all([
+      canPermit2 ? getPermit2ApprovalState(client, from, token, amount) : null,
+      canSelfPermit ? detectErc2612Support(client, token, from) : null,
+    ]);
+
+    // A token permit saves the on-chain approval Permit2 would need
+    if (erc2612 && state?.status !== "permitted" && state?.status !== "sign-permit") {
+      if (erc2612.routerAllowance >= amount) {
+        return Response.json({ method: "approve" });
+      }
+      const permit = buildErc2612Permit(from, amount, erc2612.nonce);
+      return Response.json({
+        method: "erc2612",
+        token,
+        amount: amount.toString(),
+        status: "sign-permit",
+        typedData: getErc2612TypedData(erc2612.domain, permit),
+        permit: issueErc2612Permit(erc2612.domain, permit),
+      });
+    }
+
+    if (!state) {
+      return Response.json({ method: "approve" });
+    }
+    if (state.status !== "sign-permit") {
+      return Response.json({ method: "permit2", token, amount: amount.toString(), ...state });
+    }
+
+    const permit = buildPermitSingle(token, amount, state.nonce);
+    return Response.json({
+      method: "permit2",
+      token,
+      amount: amount.toString(),
+      ...state,
+      typedData: getPermitTypedData(permit),
+      permit: issuePermit(from, permit),
+    });
+  } catch (error) {
+    console.error("build-permit failed:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to build permit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { isAddress } from "viem";
+import { checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { getBaseClient } from "@/lib/rpc-provider";
+import { buildAllowanceUpdates, type AllowanceUpdate } from "@/lib/allowances";
+import { verifyTokenImportGrants } from "@/lib/custom-tokens";
+import type { TokenInfo } from "@/lib/tokens";
+
+// Most allowance transactions built per request
+const MAX_UPDATES = 20;
+
+/**
+ * Build transactions that revoke or reduce allowances
+ * Body: { owner, updates: [{ kind: "erc20" | "permit2", token, spender, amount? }], importGrants? }
+ * Tokens must be in the registry or covered by one of the wallet's import grants
+ * amount is the new allowance in raw units (omitted or "0" revokes); it must be below the current one
+ */
+export async function POST(req: Request) {
+  try {
+    const { owner, updates, importGrants } = await req.json();
+
+    // Rate limiting
+    const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+    const rateLimit = checkRateLimit(ip, 10, 60000); // 10 builds per minute
+    if (!rateLimit.allowed) {
+      logSecurityEvent({
+        type: 'rate_limit',
+        identifier: ip,
+        reason: 'Revoke build rate limit exceeded',
+      });
+      return Response.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+        { status: 429 }
+      );
+    }
+
+    if (typeof owner !== "string" || !isAddress(owner)) {
+      return Response.json({ error: "Invalid wallet address" }, { status: 400 });
+    }
+    if (!Array.isArray(updates) || updates.length === 0 || updates.length > MAX_UPDATES) {
+      return Response.json({ error: `Send between 1 and ${MAX_UPDATES} allowance updates` }, { status: 400 });
+    }
+
+    const parsed: AllowanceUpdate[] = [];
+    for (const update of updates) {
+      const amount = update?.amount ?? "0";
+      if (
+        (update?.kind !== "erc20" && update?.kind !== "permit2") ||
+        typeof update.token !== "string" ||
+        !isAddress(update.token) ||
+        typeof update.spender !== "string" ||
+        !isAddress(update.spender) ||
+        typeof amount !== "string" ||
+        !/^\d+$/.test(amount)
+      ) {
+        return Response.json({ error: "Invalid allowance update" }, { status: 400 });
+      }
+      parsed.push({ kind: update.kind, token: update.token, spender: update.spender, amount: BigInt(amount) });
+    }
+
+    let importedTokens: TokenInfo[];
+    try {
+      importedTokens = verifyTokenImportGrants(importGrants, owner, { allowExpired: true });
+    } catch (error) {
+      logSecurityEvent({
+        type: 'token_import',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid token import grant',
+        metadata: { owner },
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid token import" }, { status: 403 });
+    }
+
+    try {
+      const transactions = await buildAllowanceUpdates(getBaseClient(), owner, parsed, importedTokens);
+      return Response.json({ transactions });
+    } catch (error) {
+      logSecurityEvent({
+        type: 'invalid_contract',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid allowance update',
+        metadata: { owner, updates }
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid allowance update" }, { status: 403 });
+    }
+  } catch (error) {
+    console.error("build-revoke failed:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to build revoke" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,26 @@
-import { parseUnits, encodeFunctionData } from "viem";
 import { TOKENS } from "@/lib/tokens";
-import { UNISWAP_CONTRACTS, SWAP_ROUTER_02_ABI } from "@/lib/uniswap";
-import { validateSwapAddresses, deriveTokenAddress, checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { MAX_DEADLINE_SECONDS, UNISWAP_CONTRACTS } from "@/lib/uniswap";
+import { buildSplitSwapCalldata } from "@/lib/swap-builder";
+import { validateSwapAddresses, validateSplitLegs, checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { getVenueAdapter, ValidatedVenueRoute } from "@/lib/venues";
+import { verifyQuoteTicketFor, QuoteTicket } from "@/lib/quote-ticket";
+import { buildPermit2SwapCalldata, openPermit, supportsPermit2, verifyPermitSignature, PermitSingleData } from "@/lib/permit2";
+import { openErc2612Permit, toSelfPermit } from "@/lib/erc2612";
+import { getBaseClient } from "@/lib/rpc-provider";
+import type { SelfPermitParams } from "@/lib/swap-builder";
 
 export async function POST(req: Request) {
   try {
-    const { tokenIn, tokenOut, amountIn, feeTier, minOutput, from } = await req.json();
+    const {
+      tokenIn,
+      tokenOut,
+      minOutput,
+      maxInput,
+      from,
+      quoteTicket,
+      permit2,
+      erc2612,
+    } = await req.json();
 
     // Rate limiting
     const ip = req.headers.get('x-forwarded-for') || from || 'anonymous';
@@ -22,66 +37,240 @@ export async function POST(req: Request) {
       );
     }
 
-    if (!tokenIn || !tokenOut || !feeTier || !minOutput) {
+    if (!tokenIn || !tokenOut || !from) {
       return Response.json({ error: "Invalid parameters" }, { status: 400 });
     }
 
-    // Validate all swap addresses (router, tokens, spender)
+    if (!quoteTicket) {
+      return Response.json({ error: "Missing quote ticket. Please fetch a new quote." }, { status: 400 });
+    }
+
+    // Route, amounts and slippage bounds come from the signed ticket, never from the client
+    let ticket: QuoteTicket;
+    try {
+      ticket = verifyQuoteTicketFor(quoteTicket, String(from));
+      if (ticket.tokenIn !== tokenIn.symbol || ticket.tokenOut !== tokenOut.symbol) {
+        throw new Error('Quote ticket was issued for a different token pair');
+      }
+    } catch (error) {
+      logSecurityEvent({
+        type: 'invalid_quote_ticket',
+        identifier: ip,
+        reason: error instanceof Error ? error.message : 'Invalid quote ticket',
+        metadata: { tokenIn: tokenIn.symbol, tokenOut: tokenOut.symbol, from }
+      });
+      return Response.json({ error: error instanceof Error ? error.message : "Invalid quote ticket" }, { status: 403 });
+    }
+
+    // The ticket expires with the quote's deadline, which is also the swap deadline
+    const now = Math.floor(Date.now() / 1000);
+    const swapDeadline = ticket.expiresAt;
+    if (!Number.isFinite(swapDeadline) || swapDeadline <= now) {
+      return Response.json({ error: "Quote expired. Please fetch a new quote." }, { status: 400 });
+    }
+    if (swapDeadline > now + MAX_DEADLINE_SECONDS) {
+      return Response.json({ error: "Deadline too far in the future" }, { status: 400 });
+    }
+
+    const isExactOutput = ticket.tradeType === 'exactOutput';
+
+    // Clients may tighten the ticket's slippage bounds, never loosen them
+    let amountInWei: bigint;
+    let amountOutWei: bigint;
+    if (isExactOutput) {
+      const ticketMaxInput = BigInt(ticket.maxInput);
+      if (maxInput !== undefined && BigInt(maxInput) > ticketMaxInput) {
+        return Response.json({ error: "maxInput is above the quoted ceiling" }, { status: 400 });
+      }
+      amountInWei = maxInput !== undefined ? BigInt(maxInput) : ticketMaxInput;
+      amountOutWei = BigInt(ticket.amountOut);
+    } else {
+      const ticketMinOutput = BigInt(ticket.minOutput);
+      if (minOutput !== undefined && BigInt(minOutput) < ticketMinOutput) {
+        return Response.json({ error: "minOutput is below the quoted floor" }, { status: 400 });
+      }
+      amountInWei = BigInt(ticket.amountIn);
+      amountOutWei = minOutput !== undefined ? BigInt(minOutput) : ticketMinOutput;
+    }
+
+    // The venue picks the router, spender and calldata
+    const adapter = getVenueAdapter(ticket.venue);
+    if (!adapter) {
+      return Response.json({ error: `Unsupported venue: ${ticket.venue}` }, { status: 400 });
+    }
+    if (!adapter.supportedTradeTypes.includes(ticket.tradeType)) {
+      return Response.json({ error: `${adapter.name} does not support this trade type` }, { status: 400 });
+    }
+
+    if (ticket.split && (isExactOutput || adapter.id !== 'uniswap-v3')) {
+      return Response.json({ error: "Split routes are only supported for Uniswap V3 exact input swaps" }, { status: 400 });
+    }
+
+    // Permit2 swaps go through the Universal Router, which pulls the input through Permit2
+    const usePermit2 = permit2 !== undefined && permit2 !== null;
+    if (usePermit2 && !supportsPermit2(ticket)) {
+      return Response.json({ error: "Permit2 is only supported for single-route Uniswap V3 swaps of ERC-20 tokens" }, { status: 400 });
+    }
+    const router = usePermit2 ? UNISWAP_CONTRACTS.UniversalRouter : adapter.router;
+
+    // Token permits are redeemed by SwapRouter02's selfPermit inside the swap multicall
+    const useSelfPermit = erc2612 !== undefined && erc2612 !== null;
+    if (useSelfPermit && (usePermit2 || adapter.id !== 'uniswap-v3' || ticket.tokenIn === "ETH")) {
+      return Response.json({ error: "Token permits are only supported for Uniswap V3 swaps of ERC-20 tokens" }, { status: 400 });
+    }
+
+    // Wallet-imported tokens are trusted only through a ticket bound to that wallet
+    const importedTokens = ticket.importedTokens ?? [];
+
+    // Validate all swap addresses (router, tokens, spender) and every route hop
+    let route: ValidatedVenueRoute;
     try {
       validateSwapAddresses({
-        to: UNISWAP_CONTRACTS.SwapRouter02,
-        tokenInSymbol: tokenIn.symbol,
-        tokenOutSymbol: tokenOut.symbol,
-        spender: UNISWAP_CONTRACTS.SwapRouter02,
+        to: router,
+        tokenInSymbol: ticket.tokenIn,
+        tokenOutSymbol: ticket.tokenOut,
+        spender: usePermit2 ? UNISWAP_CONTRACTS.Permit2 : adapter.spender,
+        importedTokens,
       });
+      route = adapter.validateRoute(ticket.hops, ticket.tokenIn, ticket.tokenOut, importedTokens);
     } catch (error) {
       logSecurityEvent({
         type: 'invalid_contract',
         identifier: ip,
         reason: error instanceof Error ? error.message : 'Invalid contract',
-        metadata: { tokenIn: tokenIn.symbol, tokenOut: tokenOut.symbol }
+        metadata: { venue: adapter.id, tokenIn: ticket.tokenIn, tokenOut: ticket.tokenOut, hops: ticket.hops }
       });
       return Response.json({ error: error instanceof Error ? error.message : "Invalid contract address" }, { status: 403 });
     }
 
-    const isSellingETH = tokenIn.symbol === "ETH";
-    const isBuyingETH = tokenOut.symbol === "ETH";
+    const isSellingETH = ticket.tokenIn === "ETH";
+    const isBuyingETH = ticket.tokenOut === "ETH";
+
+    // A token permit must be one build-permit sealed for this wallet and token, covering the whole input
+    let selfPermit: SelfPermitParams | undefined;
+    if (useSelfPermit) {
+      try {
+        const opened = openErc2612Permit(erc2612.permit, from);
+        if (opened.domain.verifyingContract.toLowerCase() !== route.tokens[0].toLowerCase()) {
+          throw new Error("Permit is for a different token");
+        }
+        if (BigInt(opened.permit.value) < amountInWei) {
+          throw new Error("Permit amount does not cover the swap");
+        }
+        if (typeof erc2612.signature !== "string" || !erc2612.signature.startsWith("0x")) {
+          throw new Error("Missing permit signature");
+        }
+        selfPermit = await toSelfPermit(opened, erc2612.signature as `0x${string}`);
+      } catch (error) {
+        logSecurityEvent({
+          type: 'invalid_permit',
+          identifier: ip,
+          reason: error instanceof Error ? error.message : 'Invalid permit',
+          metadata: { tokenIn: ticket.tokenIn, from, standard: 'erc2612' }
+        });
+        return Response.json({ error: error instanceof Error ? error.message : "Invalid permit" }, { status: 403 });
+      }
+    }
 
-    // Server-side address derivation (never trust client addresses)
-    const poolTokenInAddress = (isSellingETH
-      ? TOKENS.WETH.address
-      : deriveTokenAddress(tokenIn.symbol)) as `0x${string}`;
-    const poolTokenOutAddress = (isBuyingETH
-      ? TOKENS.WETH.address
-      : deriveTokenAddress(tokenOut.symbol)) as `0x${string}`;
+    if (ticket.split) {
+      // Split across direct pools: one exactInputSingle per leg, same validation rules as routes
+      let splitRoute: ReturnType<typeof validateSplitLegs>;
+      try {
+        splitRoute = validateSplitLegs(ticket.split, ticket.tokenIn, ticket.tokenOut, amountInWei, importedTokens);
+      } catch (error) {
+        logSecurityEvent({
+          type: 'invalid_contract',
+          identifier: ip,
+          reason: error instanceof Error ? error.message : 'Invalid split',
+          metadata: { tokenIn: ticket.tokenIn, tokenOut: ticket.tokenOut, split: ticket.split }
+        });
+        return Response.json({ error: error instanceof Error ? error.message : "Invalid split route" }, { status: 403 });
+      }
 
-    const amountWei = parseUnits(
-      amountIn.toString(),
-      isSellingETH ? 18 : tokenIn.decimals
-    );
+      // The per-leg minimums must protect at least as much as the overall minimum
+      const legsMinOutput = splitRoute.legs.reduce((sum, leg) => sum + leg.amountOutMinimum, 0n);
+      if (legsMinOutput < amountOutWei) {
+        return Response.json({ error: "Split leg minimums are below the minimum output" }, { status: 400 });
+      }
 
-    // Build exactInputSingle calldata for SwapRouter02
-    const swapCalldata = encodeFunctionData({
-      abi: SWAP_ROUTER_02_ABI,
-      functionName: "exactInputSingle",
-      args: [
-        {
-          tokenIn: poolTokenInAddress,
-          tokenOut: poolTokenOutAddress,
-          fee: feeTier,
-          recipient: from as `0x${string}`,
-          amountIn: amountWei,
-          amountOutMinimum: BigInt(minOutput),
-          sqrtPriceLimitX96: 0n,
+      const splitSwap = buildSplitSwapCalldata({
+        ...splitRoute,
+        recipient: from as `0x${string}`,
+        isSellingETH,
+        isBuyingETH,
+        deadline: swapDeadline,
+        selfPermit,
+      });
+
+      return Response.json({
+        to: adapter.router,
+        data: splitSwap.data,
+        value: splitSwap.value.toString(),
+        deadline: swapDeadline,
+        quoteId: ticket.id,
+        // Conservative estimate (extra 100k per additional leg), actual gas will be calculated by wallet
+        gas: (200000 + (splitRoute.legs.length - 1) * 100000).toString(),
+        tokenIn: {
+          symbol: tokenIn.symbol,
+          address: isSellingETH ? TOKENS.WETH.address : tokenIn.address,
         },
-      ],
-    });
+      });
+    }
+
+    const swapParams = {
+      tradeType: ticket.tradeType,
+      recipient: from as `0x${string}`,
+      amountIn: amountInWei,
+      amountOut: amountOutWei,
+      isSellingETH,
+      isBuyingETH,
+      deadline: swapDeadline,
+      selfPermit,
+    };
+
+    // A signed permit must be one build-permit sealed for this wallet, for this token and enough of it
+    let signedPermit: { permit: PermitSingleData; signature: `0x${string}` } | undefined;
+    if (usePermit2 && permit2.permit !== undefined) {
+      try {
+        const permit = openPermit(permit2.permit, from);
+        if (permit.details.token.toLowerCase() !== route.tokens[0].toLowerCase()) {
+          throw new Error("Permit is for a different token");
+        }
+        if (BigInt(permit.details.amount) < amountInWei) {
+          throw new Error("Permit amount does not cover the swap");
+        }
+        if (typeof permit2.signature !== "string" || !permit2.signature.startsWith("0x")) {
+          throw new Error("Missing permit signature");
+        }
+        const signature = permit2.signature as `0x${string}`;
+        if (!(await verifyPermitSignature(getBaseClient(), from as `0x${string}`, permit, signature))) {
+          throw new Error("Permit signature does not match the wallet");
+        }
+        signedPermit = { permit, signature };
+      } catch (error) {
+        logSecurityEvent({
+          type: 'invalid_permit',
+          identifier: ip,
+          reason: error instanceof Error ? error.message : 'Invalid permit',
+          metadata: { tokenIn: ticket.tokenIn, from }
+        });
+        return Response.json({ error: error instanceof Error ? error.message : "Invalid permit" }, { status: 403 });
+      }
+    }
+
+    // Server-side addresses come from the validated route (never trust client addresses)
+    const swap = usePermit2
+      ? buildPermit2SwapCalldata({ ...swapParams, tokens: route.tokens, fees: route.fees! }, signedPermit)
+      : adapter.buildSwap(route, swapParams);
 
     return Response.json({
-      to: UNISWAP_CONTRACTS.SwapRouter02,
-      data: swapCalldata,
-      value: isSellingETH ? amountWei.toString() : "0",
-      gas: "200000", // Conservative estimate, actual gas will be calculated by wallet
+      to: router,
+      data: swap.data,
+      value: swap.value.toString(),
+      deadline: swapDeadline,
+      quoteId: ticket.id,
+      // Conservative estimate (extra 100k per additional hop), actual gas will be calculated by wallet
+      gas: (200000 + (route.tokens.length - 2) * 100000).toString(),
       tokenIn: {
         symbol: tokenIn.symbol,
         address: isSellingETH ? TOKENS.WETH.address : tokenIn.address,
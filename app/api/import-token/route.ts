@@ -0,0 +1,162 @@
+import { getAddress, isAddress } from "viem";
+import { checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { getBaseClient } from "@/lib/rpc-provider";
+import { getTokenByAddress, getTokenBySymbol, TokenInfo } from "@/lib/tokens";
+import { resolveTokenMetadata } from "@/lib/token-metadata";
+import { scanTokenSafety } from "@/lib/token-safety";
+import { assessTokenSafety } from "@/lib/risk-classifier";
+import { issueTokenImportGrant, normalizeImportedSymbol } from "@/lib/custom-tokens";
+import { getTokenImportMessage } from "@/lib/token-profile";
+
+// How old an import signature may be, and how far ahead of the server clock
+const IMPORT_SIGNATURE_MAX_AGE_SECONDS = 10 * 60;
+const IMPORT_SIGNATURE_MAX_SKEW_SECONDS = 60;
+
+/**
+ * Check a token by contract address before a wallet imports it
+ * Body: { address, wallet, issuedAt?, signature? }
+ * Trusted listed tokens come back as-is. Anything else, community-listed tokens included, is read on-chain
+ * and test-traded, and unless it is a honeypot, returned with its findings. With the wallet's signature over
+ * getTokenImportMessage it also gets an import grant that makes it swappable for that wallet only
+ */
+export async function POST(req: Request) {
+  try {
+    const { address, wallet, issuedAt, signature } = await req.json();
+
+    // Rate limiting (every check runs a simulation)
+    const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+    const rateLimit = checkRateLimit(ip, 10, 60000); // 10 checks per minute
+    if (!rateLimit.allowed) {
+      logSecurityEvent({
+        type: 'rate_limit',
+        identifier: ip,
+        reason: 'Token import rate limit exceeded',
+      });
+      return Response.json(
+        { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+        { status: 429 }
+      );
+    }
+
+    if (typeof address !== "string" || !isAddress(address)) {
+      return Response.json({ error: "Invalid token address" }, { status: 400 });
+    }
+    if (typeof wallet !== "string" || !isAddress(wallet)) {
+      return Response.json({ error: "Connect a wallet to import tokens" }, { status: 400 });
+    }
+
+    const listed = getTokenByAddress(address);
+    if (listed && listed.trust !== "community") {
+      return Response.json({
+        status: "listed",
+        token: { symbol: listed.symbol, address: listed.address, decimals: listed.decimals, name: listed.name },
+      });
+    }
+
+    const client = getBaseClient();
+
+    // Only the wallet itself may ask for a grant bound to it (smart wallets verify through ERC-1271)
+    const wantsGrant = signature !== undefined && signature !== null;
+    if (wantsGrant) {
+      const now = Math.floor(Date.now() / 1000);
+      if (
+        typeof signature !== "string" ||
+        !Number.isInteger(issuedAt) ||
+        issuedAt < now - IMPORT_SIGNATURE_MAX_AGE_SECONDS ||
+        issuedAt > now + IMPORT_SIGNATURE_MAX_SKEW_SECONDS
+      ) {
+        return Response.json({ error: "Import signature is malformed or expired. Sign again" }, { status: 400 });
+      }
+      const signed = await client
+        .verifyMessage({
+          address: wallet,
+          message: getTokenImportMessage(getAddress(address), getAddress(wallet), issuedAt),
+          signature: signature as `0x${string}`,
+        })
+        .catch(() => false);
+      if (!signed) {
+        logSecurityEvent({
+          type: 'token_import',
+          identifier: ip,
+          reason: `Import signature for ${address} does not match wallet`,
+          metadata: { address, wallet },
+        });
+        return Response.json({ error: "Import signature does not match this wallet" }, { status: 403 });
+      }
+    }
+    const metadata = (await resolveTokenMetadata(client, [address])).get(address.toLowerCase());
+    if (!metadata) {
+      return Response.json({ error: "This address is not an ERC-20 token on Base" }, { status: 400 });
+    }
+
+    // A community-listed token keeps its registry symbol, so the grant covers the symbol quotes use
+    const symbol = listed?.symbol ?? normalizeImportedSymbol(metadata.symbol);
+    if (!symbol) {
+      return Response.json(
+        { error: "This token's symbol is missing or uses unsupported characters and cannot be imported" },
+        { status: 400 }
+      );
+    }
+
+    // A contract reusing a listed symbol is the classic fake-token scam; it is never importable
+    const listedSymbol = getTokenBySymbol(symbol);
+    if (listedSymbol && listedSymbol !== listed) {
+      logSecurityEvent({
+        type: 'token_import',
+        identifier: ip,
+        reason: `Token ${address} impersonates listed symbol ${symbol}`,
+        metadata: { address, wallet, name: metadata.name },
+      });
+      return Response.json(
+        { error: `${symbol} is already a listed token with a different contract. This one is likely a fake.` },
+        { status: 409 }
+      );
+    }
+
+    const token: TokenInfo = {
+      symbol,
+      address: getAddress(address),
+      decimals: metadata.decimals,
+      name: metadata.name || symbol,
+    };
+    const safety = await scanTokenSafety(client, token);
+    const risk = assessTokenSafety(safety);
+
+    if (safety.honeypot) {
+      logSecurityEvent({
+        type: 'token_import',
+        identifier: ip,
+        reason: `Refused import of honeypot token ${symbol}`,
+        metadata: { address, wallet },
+      });
+      return Response.json(
+        { error: `${symbol} can be bought but not sold. It cannot be imported.`, safety, risk },
+        { status: 403 }
+      );
+    }
+
+    if (wantsGrant) {
+      logSecurityEvent({
+        type: 'token_import',
+        identifier: ip,
+        reason: `Issued import grant for ${symbol}`,
+        metadata: { address, wallet, risk: risk?.name ?? null },
+      });
+    }
+
+    return Response.json({
+      status: "importable",
+      token,
+      totalSupply: metadata.totalSupply?.toString() ?? null,
+      safety,
+      risk,
+      importGrant: wantsGrant ? issueTokenImportGrant(token, wallet, issuedAt) : undefined,
+    });
+  } catch (error) {
+    console.error('import-token failed:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to check token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest } from "next/server";
+import { isAddress } from "viem";
+import { resolveDeadline } from "@/lib/uniswap";
+import { getCachedSwapQuote, resolveQuoteRequest } from "@/lib/quote-service";
+import { issueQuoteTicket } from "@/lib/quote-ticket";
+import { checkRateLimit, logSecurityEvent } from "@/lib/security";
+import { getBaseClient } from "@/lib/rpc-provider";
+import { resolveQuoteImports } from "@/lib/custom-tokens";
+import type { TokenInfo } from "@/lib/tokens";
+
+export const dynamic = "force-dynamic";
+
+// Base produces a block every 2s; poll at half that so no block is missed
+const BLOCK_POLLING_INTERVAL_MS = 1000;
+// Streams are closed after this long; EventSource reconnects on its own if the page is still open
+const MAX_STREAM_DURATION_MS = 5 * 60 * 1000;
+// Reconnect delay advertised to the EventSource client
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Server-Sent Events stream that re-quotes an intent on every new Base block
+ * Query: tokenIn, tokenOut, amountIn | amountOut, slippage (percent), deadlineSeconds, recipient,
+ * importedTokens (comma-separated token import grants)
+ * Events: "quote" ({ blockNumber, quote }) and "unavailable" ({ blockNumber, error })
+ */
+export async function GET(req: NextRequest) {
+  const params = Object.fromEntries(req.nextUrl.searchParams);
+  const request = resolveQuoteRequest(params);
+  if ("error" in request) {
+    return Response.json({ error: request.error }, { status: 400 });
+  }
+  const recipient = params.recipient;
+  if (recipient !== undefined && !isAddress(recipient)) {
+    return Response.json({ error: "Invalid recipient address" }, { status: 400 });
+  }
+
+  // Rate limiting (per stream opened; the stream then paces itself by block)
+  const ip = req.headers.get('x-forwarded-for') || 'anonymous';
+  const rateLimit = checkRateLimit(ip, 10, 60000); // 10 streams per minute
+  if (!rateLimit.allowed) {
+    logSecurityEvent({
+      type: 'rate_limit',
+      identifier: ip,
+      reason: 'Quote stream rate limit exceeded',
+    });
+    return Response.json(
+      { error: `Rate limit exceeded. Try again in ${Math.ceil((rateLimit.resetAt - Date.now()) / 1000)}s` },
+      { status: 429 }
+    );
+  }
+
+  // Imports are checked once when the stream opens; a re-opened stream checks them again
+  let importedTokens: TokenInfo[];
+  try {
+    importedTokens = await resolveQuoteImports(
+      getBaseClient(),
+      params.importedTokens ? params.importedTokens.split(",") : undefined,
+      recipient,
+      [request.tokenIn, request.tokenOut]
+    );
+  } catch (error) {
+    logSecurityEvent({
+      type: 'token_import',
+      identifier: ip,
+      reason: error instanceof Error ? error.message : 'Invalid token import grant',
+      metadata: { tokenIn: request.tokenIn, tokenOut: request.tokenOut, recipient },
+    });
+    return Response.json({ error: error instanceof Error ? error.message : "Invalid token import" }, { status: 403 });
+  }
+
+  const deadlineSeconds = params.deadlineSeconds ? Number(params.deadlineSeconds) : undefined;
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let quoting = false;
+      // Latest block seen while a quote was in flight; quoted next, skipping any in between
+      let pendingBlock: bigint | null = null;
+
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const requote = async (blockNumber: bigint) => {
+        if (quoting) {
+          pendingBlock = blockNumber;
+          return;
+        }
+        quoting = true;
+
+        try {
+          // Streams on the same intent share one quote per block through the cache
+          const { result } = await getCachedSwapQuote({ ...request, importedTokens });
+          if (result.status === "quoted") {
+            // Each streamed quote carries its own ticket, so any of them can be built
+            const deadline = resolveDeadline(deadlineSeconds);
+            send("quote", {
+              blockNumber: blockNumber.toString(),
+              quote: {
+                ...result.quote,
+                deadline,
+                ...issueQuoteTicket(result.quote, {
+                  slippage: request.slippage,
+                  deadline,
+                  recipient,
+                  importedTokens,
+                }),
+              },
+            });
+          } else {
+            send("unavailable", {
+              blockNumber: blockNumber.toString(),
+              error: result.status === "no-liquidity"
+                ? "No liquidity pool found for this token pair"
+                : "Invalid token",
+            });
+          }
+        } catch (error) {
+          console.error('quote-stream re-quote failed:', error);
+          send("unavailable", {
+            blockNumber: blockNumber.toString(),
+            error: error instanceof Error ? error.message : 'Failed to get quote',
+          });
+        } finally {
+          quoting = false;
+        }
+
+        if (pendingBlock !== null && !closed) {
+          const next = pendingBlock;
+          pendingBlock = null;
+          requote(next);
+        }
+      };
+
+      const unwatch = getBaseClient().watchBlockNumber({
+        emitOnBegin: true,
+        pollingInterval: BLOCK_POLLING_INTERVAL_MS,
+        onBlockNumber: blockNumber => requote(blockNumber),
+        onError: error => console.error('quote-stream block watch failed:', error),
+      });
+
+      const lifetime = setTimeout(() => stop(), MAX_STREAM_DURATION_MS);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unwatch();
+        clearTimeout(lifetime);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client cancelling the stream
+        }
+      };
+
+      req.signal.addEventListener('abort', () => stop());
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
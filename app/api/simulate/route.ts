@@ -14,7 +14,7 @@ function parseSimulationError(errorMessage: string): string {
   if (errorMessage.includes('liquidity')) {
     return 'Insufficient liquidity in the pool. Try a smaller amount.';
   }
-  if (errorMessage.includes('deadline')) {
+  if (errorMessage.includes('deadline') || errorMessage.includes('Transaction too old')) {
     return 'Transaction deadline exceeded. Please try again.';
   }
   if (errorMessage.includes('allowance') || errorMessage.includes('approve')) {
@@ -24,9 +24,77 @@ function parseSimulationError(errorMessage: string): string {
   return 'Simulation failed. The transaction would not succeed on-chain.';
 }
 
+// Most calls simulated in one bundle
+const MAX_BUNDLE_CALLS = 4;
+
+async function simulateBundle(
+  ip: string,
+  from: string,
+  calls: { to: string; data: string; value?: string }[]
+): Promise<Response> {
+  if (calls.length === 0 || calls.length > MAX_BUNDLE_CALLS) {
+    return Response.json({ error: `Bundles hold between 1 and ${MAX_BUNDLE_CALLS} calls` }, { status: 400 });
+  }
+
+  const response = await fetch(
+    `https://api.tenderly.co/api/v1/account/${process.env.TENDERLY_ACCOUNT}/project/${process.env.TENDERLY_PROJECT}/simulate-bundle`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Access-Key": process.env.TENDERLY_ACCESS_KEY || ""
+      },
+      body: JSON.stringify({
+        simulations: calls.map(call => ({
+          network_id: "8453", // Base Mainnet
+          from,
+          to: call.to,
+          input: call.data,
+          value: call.value || "0",
+          save: false,
+          simulation_type: "quick"
+        }))
+      })
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Tenderly bundle API error:', errorText);
+    return Response.json({ error: parseSimulationError(errorText) }, { status: 500 });
+  }
+
+  const result = await response.json();
+  const transactions: { status: boolean; gas_used?: number; error_message?: string }[] =
+    (result.simulation_results ?? []).map((simulation: any) => simulation.transaction);
+  const gasUsed = transactions.reduce((sum, transaction) => sum + Number(transaction.gas_used || 0), 0);
+
+  const failed = transactions.find(transaction => !transaction.status);
+  if (failed || transactions.length !== calls.length) {
+    const errorMsg = failed?.error_message || 'Bundle would fail';
+    logSecurityEvent({
+      type: 'simulation_failure',
+      identifier: ip,
+      reason: 'Bundle simulation failed',
+      metadata: { error: errorMsg, calls: calls.length }
+    });
+    return Response.json({
+      success: false,
+      gasUsed: gasUsed.toString(),
+      error: parseSimulationError(errorMsg)
+    });
+  }
+
+  return Response.json({
+    success: true,
+    gasUsed: gasUsed.toString(),
+    error: undefined
+  });
+}
+
 export async function POST(req: Request) {
   try {
-    const { from, to, data, value } = await req.json();
+    const { from, to, data, value, calls } = await req.json();
 
     // Rate limiting
     const ip = req.headers.get('x-forwarded-for') || from || 'anonymous';
@@ -43,6 +111,11 @@ export async function POST(req: Request) {
       );
     }
 
+    // Atomic batches (approve + swap) are simulated as a bundle, each call on the state the previous one left
+    if (Array.isArray(calls)) {
+      return simulateBundle(ip, from, calls);
+    }
+
     const response = await fetch(
       `https://api.tenderly.co/api/v1/account/${process.env.TENDERLY_ACCOUNT}/project/${process.env.TENDERLY_PROJECT}/simulate`,
       {
@@ -1,12 +1,14 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAccount } from 'wagmi';
 import { SwapInterface, SwapInterfaceHandle } from '@/components/SwapInterface';
 import { PortfolioWatchdog } from '@/components/PortfolioWatchdog';
 import { SwapCopilot } from '@/components/SwapCopilot';
 import { ChatSidebar } from '@/components/ChatSidebar';
+import { TokenImport } from '@/components/TokenImport';
 import { SwapContext, Message } from '@/lib/ai-copilot-enhanced';
 import {
   loadChatStorage,
@@ -17,6 +19,7 @@ import {
   saveSidebarState,
   ChatSession,
 } from '@/lib/chat-storage';
+import { loadImportedTokens, type ImportedToken } from '@/lib/token-profile';
 
 export default function Home() {
   const { address, isConnected } = useAccount();
@@ -25,6 +28,7 @@ export default function Home() {
     tokenIn: string;
     tokenOut: string;
     amount: string;
+    amountOut?: string;
   } | null>(null);
   const [pendingSlippage, setPendingSlippage] = useState<number | null>(null);
   const swapInterfaceRef = useRef<SwapInterfaceHandle | null>(null);
@@ -35,6 +39,17 @@ export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(() => loadSidebarState());
 
+  // Tokens this wallet imported by address; kept out of swapContext so chat switches never drop them
+  const [importedTokens, setImportedTokens] = useState<ImportedToken[]>([]);
+  const copilotContext: SwapContext = {
+    ...swapContext,
+    importedTokens: importedTokens.map(imported => imported.token),
+  };
+
+  useEffect(() => {
+    setImportedTokens(address ? loadImportedTokens(address) : []);
+  }, [address]);
+
   // Update context with wallet connection status
   useEffect(() => {
     setSwapContext(prev => ({ ...prev, isWalletConnected: isConnected }));
@@ -67,7 +82,7 @@ export default function Home() {
           body: JSON.stringify({
             message: 'show quote',
             conversationHistory: messages,
-            swapContext,
+            swapContext: copilotContext,
           }),
         });
 
@@ -149,7 +164,7 @@ export default function Home() {
             body: JSON.stringify({
               message: 'transaction result',
               conversationHistory: messages,
-              swapContext,
+              swapContext: copilotContext,
             }),
           });
 
@@ -234,9 +249,9 @@ export default function Home() {
     });
   }, [messages, address, activeChatId, swapContext, chats]);
 
-  const handleSwapIntent = (tokenIn: string, tokenOut: string, amount: string) => {
-    setPendingSwapIntent({ tokenIn, tokenOut, amount });
-    setSwapContext(prev => ({ ...prev, tokenIn, tokenOut, amount }));
+  const handleSwapIntent = (tokenIn: string, tokenOut: string, amount: string, amountOut?: string) => {
+    setPendingSwapIntent({ tokenIn, tokenOut, amount, amountOut });
+    setSwapContext(prev => ({ ...prev, tokenIn, tokenOut, amount, amountOut }));
     setPendingSlippage(null);
   };
 
@@ -266,7 +281,7 @@ export default function Home() {
           body: JSON.stringify({
             message: 'simulation result',
             conversationHistory: messages,
-            swapContext,
+            swapContext: copilotContext,
           }),
         });
 
@@ -380,7 +395,14 @@ export default function Home() {
       {/* Header */}
       <header className="border-b border-gray-800 p-4 flex justify-between items-center">
         <h1 className="text-2xl font-bold text-white">SwapWright</h1>
-        <ConnectButton />
+        <div className="flex items-center gap-4">
+          {address && (
+            <Link href="/allowances" className="text-sm text-gray-400 hover:text-white transition-colors">
+              Approvals
+            </Link>
+          )}
+          <ConnectButton />
+        </div>
       </header>
 
       {/* Main Content */}
@@ -398,6 +420,13 @@ export default function Home() {
             <PortfolioWatchdog />
           </div>
 
+          {/* Custom token imports (per wallet) */}
+          {address && (
+            <div className="mb-6">
+              <TokenImport importedTokens={importedTokens} onImportedTokensChange={setImportedTokens} />
+            </div>
+          )}
+
           {/* Main layout: Chat-first with hidden swap interface */}
           <div className="grid grid-cols-1 gap-6">
             {/* AI Copilot with Sidebar */}
@@ -441,7 +470,7 @@ export default function Home() {
                   onSimulate={handleSimulate}
                   onExecute={handleExecute}
                   onNewChat={handleNewChat}
-                  swapContext={swapContext}
+                  swapContext={copilotContext}
                 />
               </div>
             </div>
@@ -455,6 +484,7 @@ export default function Home() {
                 onClearIntent={() => setPendingSwapIntent(null)}
                 onClearSlippage={() => setPendingSlippage(null)}
                 onContextUpdate={updateSwapContext}
+                importedTokens={importedTokens}
               />
             </div>
           </div>
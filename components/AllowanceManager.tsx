@@ -0,0 +1,295 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useSendTransaction, useWaitForTransactionReceipt } from 'wagmi';
+import { formatUnits, parseUnits } from 'viem';
+import type { AllowanceEntry, AllowanceTransaction } from '@/lib/allowances';
+import { loadImportedTokens } from '@/lib/token-profile';
+
+type AllowanceFilter = 'flagged' | 'all';
+
+function entryKey(entry: AllowanceEntry): string {
+  return `${entry.kind}:${entry.token.address}:${entry.spender}`.toLowerCase();
+}
+
+function formatAllowance(entry: AllowanceEntry): string {
+  if (entry.unlimited) return 'Unlimited';
+  return Number(formatUnits(BigInt(entry.amount), entry.token.decimals)).toLocaleString('en-US', {
+    maximumFractionDigits: 6,
+  });
+}
+
+function importGrantsFor(address: string): string[] {
+  return loadImportedTokens(address).map(imported => imported.importGrant);
+}
+
+export function AllowanceManager() {
+  const { address } = useAccount();
+  const { sendTransactionAsync } = useSendTransaction();
+
+  const [allowances, setAllowances] = useState<AllowanceEntry[]>([]);
+  const [scannedAt, setScannedAt] = useState<number | null>(null);
+  const [filter, setFilter] = useState<AllowanceFilter>('flagged');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reduceTo, setReduceTo] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Last transaction of a batch; the wallet sends them in nonce order, so once it lands they all have
+  const [lastHash, setLastHash] = useState<`0x${string}` | undefined>();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash: lastHash });
+
+  const scan = useCallback(async () => {
+    if (!address) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/allowances', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Grants for the wallet's imported tokens put their allowances in the scan
+        body: JSON.stringify({ owner: address, importGrants: importGrantsFor(address) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to scan allowances');
+      }
+      setAllowances(data.allowances);
+      setScannedAt(data.scannedAt);
+      setSelected(new Set());
+      setReduceTo({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan allowances');
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  // Rescan once the batch has confirmed
+  useEffect(() => {
+    if (!isConfirmed) return;
+    setLastHash(undefined);
+    scan();
+  }, [isConfirmed, scan]);
+
+  if (!address) {
+    return (
+      <div className="bg-gray-800 border border-gray-700 rounded-lg p-8 text-center">
+        <p className="text-gray-400">Connect your wallet to review its token approvals</p>
+      </div>
+    );
+  }
+
+  const visible = filter === 'flagged' ? allowances.filter(entry => entry.unlimited || entry.stale) : allowances;
+  const flaggedCount = allowances.filter(entry => entry.unlimited || entry.stale).length;
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const sendUpdates = async (updates: { entry: AllowanceEntry; amount: bigint }[]) => {
+    if (!address) return;
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/build-revoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          owner: address,
+          importGrants: importGrantsFor(address),
+          updates: updates.map(({ entry, amount }) => ({
+            kind: entry.kind,
+            token: entry.token.address,
+            spender: entry.spender,
+            amount: amount.toString(),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to build revoke');
+      }
+
+      // One wallet prompt per transaction, in order
+      let hash: `0x${string}` | undefined;
+      for (const tx of data.transactions as AllowanceTransaction[]) {
+        hash = await sendTransactionAsync({ to: tx.to, data: tx.data, value: 0n });
+      }
+      setLastHash(hash);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update allowances');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevokeSelected = () => {
+    const updates = allowances
+      .filter(entry => selected.has(entryKey(entry)))
+      .map(entry => ({ entry, amount: 0n }));
+    if (updates.length > 0) sendUpdates(updates);
+  };
+
+  const handleReduce = (entry: AllowanceEntry) => {
+    const value = reduceTo[entryKey(entry)];
+    let amount: bigint;
+    try {
+      amount = parseUnits(value ?? '', entry.token.decimals);
+    } catch {
+      setError(`Enter a ${entry.token.symbol} amount to reduce to`);
+      return;
+    }
+    if (amount >= BigInt(entry.amount)) {
+      setError('The new allowance must be lower than the current one');
+      return;
+    }
+    sendUpdates([{ entry, amount }]);
+  };
+
+  const busy = loading || sending || isConfirming;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-white font-semibold">Token approvals</h3>
+          <p className="text-xs text-gray-500">
+            {scannedAt
+              ? `${allowances.length} active, ${flaggedCount} flagged · scanned ${new Date(scannedAt).toLocaleTimeString()}`
+              : 'Scanning every supported token against every router this app uses'}
+          </p>
+        </div>
+        <button
+          onClick={scan}
+          disabled={busy}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+        >
+          {loading ? 'Scanning...' : 'Rescan'}
+        </button>
+      </div>
+
+      <div className="flex gap-2 text-sm">
+        {(['flagged', 'all'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1 rounded-full border transition-colors ${
+              filter === option
+                ? 'border-blue-500 bg-blue-500/20 text-blue-300'
+                : 'border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            {option === 'flagged' ? `Flagged (${flaggedCount})` : `All (${allowances.length})`}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {isConfirming && <p className="text-sm text-yellow-400">⏳ Waiting for confirmation...</p>}
+
+      {scannedAt && visible.length === 0 && (
+        <p className="text-sm text-gray-400">
+          {filter === 'flagged' ? 'No unlimited or stale approvals. Nice.' : 'This wallet has no active approvals.'}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {visible.map(entry => {
+          const key = entryKey(entry);
+          return (
+            <div key={key} className="bg-gray-900 rounded-lg px-3 py-3 space-y-2">
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.has(key)}
+                  onChange={() => toggleSelected(key)}
+                  disabled={busy}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-white font-medium">{entry.token.symbol}</span>
+                    <span className="text-gray-500 text-sm">→ {entry.spenderName}</span>
+                    {entry.imported && (
+                      <span className="px-1.5 py-0.5 bg-gray-600/20 border border-gray-600/40 text-gray-300 text-xs rounded">
+                        IMPORTED
+                      </span>
+                    )}
+                    {entry.unlimited && (
+                      <span className="px-1.5 py-0.5 bg-red-600/20 border border-red-600/40 text-red-400 text-xs rounded">
+                        UNLIMITED
+                      </span>
+                    )}
+                    {entry.stale && (
+                      <span className="px-1.5 py-0.5 bg-yellow-600/20 border border-yellow-600/40 text-yellow-400 text-xs rounded">
+                        STALE
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-1 space-x-3">
+                    <span>Allowance: {formatAllowance(entry)}</span>
+                    <span>
+                      Balance: {Number(formatUnits(BigInt(entry.balance), entry.token.decimals)).toLocaleString('en-US')}
+                    </span>
+                    {entry.expiration !== null && (
+                      <span>Expires {new Date(entry.expiration * 1000).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                  {entry.stale && (
+                    <p className="text-xs text-yellow-500/80 mt-1">
+                      You hold no {entry.token.symbol}; this approval only exposes tokens you receive later.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-2 pl-7">
+                <input
+                  value={reduceTo[key] ?? ''}
+                  onChange={event => setReduceTo(prev => ({ ...prev, [key]: event.target.value }))}
+                  placeholder={`New ${entry.token.symbol} allowance`}
+                  className="flex-1 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-xs focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={() => handleReduce(entry)}
+                  disabled={busy || !reduceTo[key]}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-xs rounded transition-colors"
+                >
+                  Reduce
+                </button>
+                <button
+                  onClick={() => sendUpdates([{ entry, amount: 0n }])}
+                  disabled={busy}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs rounded transition-colors"
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected.size > 0 && (
+        <button
+          onClick={handleRevokeSelected}
+          disabled={busy}
+          className="w-full py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors"
+        >
+          {sending ? 'Confirm in your wallet...' : `Revoke ${selected.size} selected`}
+        </button>
+      )}
+    </div>
+  );
+}
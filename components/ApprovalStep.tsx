@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { formatUnits } from 'viem';
+import Link from 'next/link';
 
 interface QuoteToken {
   symbol: string;
@@ -11,23 +12,126 @@ interface QuoteToken {
   poolDecimals: number;
 }
 
+// approve: classic allowance for the router; approve-permit2: one-time allowance for Permit2;
+// sign-permit: gasless PermitSingle signature letting the router spend through Permit2;
+// sign-token-permit: the token's own EIP-2612 permit, redeemed by the router in the swap transaction
+type ApprovalMode = 'approve' | 'approve-permit2' | 'sign-permit' | 'sign-token-permit';
+
 interface ApprovalStepProps {
   token: QuoteToken;
   amount: number;
   spenderName?: string;
+  mode?: ApprovalMode;
+  // Unix seconds: when the signed allowance lapses, and the last moment the signature can be used
+  permitExpiration?: number;
+  sigDeadline?: number;
   onApprove: (isUnlimited: boolean) => void;
+  onSignPermit?: () => void;
   loading: boolean;
 }
 
+function formatExpiry(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
 export function ApprovalStep({
   token,
   amount,
   spenderName = 'Uniswap Router',
+  mode = 'approve',
+  permitExpiration,
+  sigDeadline,
   onApprove,
+  onSignPermit,
   loading
 }: ApprovalStepProps) {
   const [approvalType, setApprovalType] = useState<'exact' | 'unlimited'>('exact');
   const [showInfoTooltip, setShowInfoTooltip] = useState(false);
+  const isPermit2Approval = mode === 'approve-permit2';
+
+  if (mode === 'sign-permit' || mode === 'sign-token-permit') {
+    return (
+      <div className="bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-gray-800 dark:to-gray-900 rounded-xl border-2 border-blue-300 dark:border-blue-800 p-6 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-500 rounded-full">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="font-bold text-lg text-gray-900 dark:text-white">Sign Permit</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Gasless signature, no transaction</p>
+          </div>
+        </div>
+
+        {/* Permit Details */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 space-y-3 border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {mode === 'sign-token-permit' ? (
+              <>
+                {token.symbol} supports permits: sign one letting {spenderName} spend <span className="font-semibold">{amount} {token.symbol}</span> and the approval happens inside the swap transaction.
+              </>
+            ) : (
+              <>
+                Sign a permit letting {spenderName} spend <span className="font-semibold">{amount} {token.symbol}</span> through Permit2. It is redeemed inside the swap transaction.
+              </>
+            )}
+          </p>
+
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Amount</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{amount} {token.symbol}</span>
+            </div>
+            {permitExpiration !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Allowance expires</span>
+                <span className="font-semibold text-gray-900 dark:text-white">{formatExpiry(permitExpiration)}</span>
+              </div>
+            )}
+            {sigDeadline !== undefined && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Signature valid until</span>
+                <span className="font-semibold text-gray-900 dark:text-white">{formatExpiry(sigDeadline)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Sign Button */}
+        <button
+          onClick={onSignPermit}
+          disabled={loading || !onSignPermit}
+          className="w-full bg-gradient-to-r from-blue-500 to-indigo-500 text-white py-4 px-6 rounded-lg font-semibold hover:from-blue-600 hover:to-indigo-600 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl"
+        >
+          {loading ? (
+            <span className="flex items-center justify-center gap-2">
+              <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+              </svg>
+              Waiting for signature...
+            </span>
+          ) : (
+            `Sign Permit for ${amount} ${token.symbol}`
+          )}
+        </button>
+
+        <p className="text-xs text-gray-600 dark:text-gray-400 text-center">
+          {mode === 'sign-token-permit'
+            ? 'Only the amount of this swap is permitted. Smart contract wallets cannot sign token permits.'
+            : 'Only the amount of this swap is permitted; anything unspent lapses when the allowance expires.'}
+        </p>
+      </div>
+    );
+  }
 
   return (
     <div className="bg-gradient-to-br from-yellow-50 to-orange-50 dark:from-gray-800 dark:to-gray-900 rounded-xl border-2 border-yellow-300 dark:border-yellow-800 p-6 space-y-4">
@@ -40,8 +144,12 @@ export function ApprovalStep({
             </svg>
           </div>
           <div>
-            <h3 className="font-bold text-lg text-gray-900 dark:text-white">Token Approval Required</h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400">One-time permission needed</p>
+            <h3 className="font-bold text-lg text-gray-900 dark:text-white">
+              {isPermit2Approval ? 'Approve Permit2' : 'Token Approval Required'}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {isPermit2Approval ? 'One-time approval, then sign each swap' : 'One-time permission needed'}
+            </p>
           </div>
         </div>
 
@@ -81,6 +189,11 @@ export function ApprovalStep({
             <p className="text-sm text-gray-700 dark:text-gray-300">
               Before swapping <span className="font-semibold">{token.symbol}</span>, you need to give {spenderName} permission to access your tokens.
             </p>
+            {isPermit2Approval && (
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                Permit2 is Uniswap&apos;s shared approval contract. After this, each swap only needs a free signature with its own amount and expiry.
+              </p>
+            )}
           </div>
         </div>
 
@@ -96,8 +209,8 @@ export function ApprovalStep({
         </div>
       </div>
 
-      {/* Approval Type Selection */}
-      <div className="space-y-3">
+      {/* Approval Type Selection (Permit2 is always approved in full; each swap signs its own amount) */}
+      <div className={isPermit2Approval ? 'hidden' : 'space-y-3'}>
         <label className="text-sm font-semibold text-gray-900 dark:text-white">Choose Approval Amount:</label>
 
         {/* Exact Amount Option */}
@@ -184,7 +297,10 @@ export function ApprovalStep({
           <div className="flex-1">
             <p className="text-xs text-blue-800 dark:text-blue-200 font-medium">Safety Tip</p>
             <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
-              Approving the exact amount is safer. You can always approve more later if needed.
+              {isPermit2Approval
+                ? 'Permit2 can only move what you sign for, per swap and for at most 30 days. '
+                : 'Approving the exact amount is safer. You can always approve more later if needed. '}
+              Review or revoke approvals on the <Link href="/allowances" className="underline">Approvals</Link> page.
             </p>
           </div>
         </div>
@@ -192,7 +308,7 @@ export function ApprovalStep({
 
       {/* Approve Button */}
       <button
-        onClick={() => onApprove(approvalType === 'unlimited')}
+        onClick={() => onApprove(isPermit2Approval || approvalType === 'unlimited')}
         disabled={loading}
         className="w-full bg-gradient-to-r from-yellow-500 to-orange-500 text-white py-4 px-6 rounded-lg font-semibold hover:from-yellow-600 hover:to-orange-600 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl"
       >
@@ -209,7 +325,9 @@ export function ApprovalStep({
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
             </svg>
-            Approve {approvalType === 'unlimited' ? 'Unlimited' : amount} {token.symbol}
+            {isPermit2Approval
+              ? `Approve ${token.symbol} for Permit2`
+              : `Approve ${approvalType === 'unlimited' ? 'Unlimited' : amount} ${token.symbol}`}
           </span>
         )}
       </button>
@@ -228,7 +346,9 @@ export function ApprovalStep({
           </li>
           <li className="flex items-start gap-2">
             <span className="font-semibold text-yellow-600 dark:text-yellow-400">3.</span>
-            <span>Automatically proceed to swap simulation</span>
+            <span>
+              {isPermit2Approval ? 'Sign a permit for this swap, then proceed to simulation' : 'Automatically proceed to swap simulation'}
+            </span>
           </li>
         </ol>
       </div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { ArrowDown } from 'lucide-react';
+import { formatQuoteDrift, type QuoteDrift } from '@/lib/quote-drift';
 
 export interface TransactionData {
   youPay: string;
@@ -13,6 +14,7 @@ export interface TransactionData {
   liquiditySource: string;
   slippageTolerance: string;
   minReceived: string;
+  maxPay?: string;
   estimatedGas: string;
   gasUSD?: string;
   priceImpact: string;
@@ -26,6 +28,8 @@ interface ChatTransactionPreviewProps {
   onCancel?: () => void;
   showActions?: boolean;
   simulationPassed?: boolean;
+  // Live re-quote drift; execution is locked once it exceeds the slippage tolerance
+  drift?: QuoteDrift;
 }
 
 export function ChatTransactionPreview({
@@ -35,7 +39,13 @@ export function ChatTransactionPreview({
   onCancel,
   showActions = true,
   simulationPassed = false,
+  drift,
 }: ChatTransactionPreviewProps) {
+  const executionLocked = !!drift?.exceedsSlippage;
+
+  // Route strings look like "ETH → USDC → USDBC"; anything between the endpoints is a hop
+  const intermediateTokens = data.route ? data.route.split(' → ').slice(1, -1) : [];
+
   return (
     <div className="my-4 rounded-xl border border-blue-500/30 bg-gray-800/40 p-6 backdrop-blur-sm max-w-md">
       {/* Header */}
@@ -51,7 +61,7 @@ export function ChatTransactionPreview({
         <div className="flex items-center justify-between">
           <span className="text-sm text-gray-400">You Pay</span>
           <span className="text-xl font-bold text-white">
-            {data.youPay} {data.youPayToken}
+            {data.maxPay ? '~' : ''}{data.youPay} {data.youPayToken}
           </span>
         </div>
 
@@ -64,7 +74,7 @@ export function ChatTransactionPreview({
         <div className="flex items-center justify-between">
           <span className="text-sm text-gray-400">You Receive</span>
           <span className="text-xl font-bold text-green-400">
-            ~{data.youReceive} {data.youReceiveToken}
+            {data.maxPay ? '' : '~'}{data.youReceive} {data.youReceiveToken}
           </span>
         </div>
 
@@ -85,7 +95,9 @@ export function ChatTransactionPreview({
               {data.youPayToken}
             </span>
             <div className="h-[2px] w-24 bg-gradient-to-r from-blue-500 to-purple-500"></div>
-            <span className="text-xs text-gray-500">Direct Swap</span>
+            <span className="text-xs text-gray-500">
+              {intermediateTokens.length > 0 ? `via ${intermediateTokens.join(' → ')}` : 'Direct Swap'}
+            </span>
             <div className="h-[2px] w-24 bg-gradient-to-r from-purple-500 to-pink-500"></div>
             <span className="rounded-md bg-purple-600/20 px-2 py-1 text-sm font-medium text-purple-400">
               {data.youReceiveToken}
@@ -112,10 +124,17 @@ export function ChatTransactionPreview({
           <span className="text-gray-500">Slippage Tolerance</span>
           <span className="text-gray-300">{data.slippageTolerance}</span>
         </div>
-        <div className="flex justify-between">
-          <span className="text-gray-500">Minimum Received</span>
-          <span className="text-orange-400">{data.minReceived} {data.youReceiveToken}</span>
-        </div>
+        {data.maxPay ? (
+          <div className="flex justify-between">
+            <span className="text-gray-500">Max You Pay</span>
+            <span className="text-orange-400">{data.maxPay} {data.youPayToken}</span>
+          </div>
+        ) : (
+          <div className="flex justify-between">
+            <span className="text-gray-500">Minimum Received</span>
+            <span className="text-orange-400">{data.minReceived} {data.youReceiveToken}</span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-gray-500">Estimated Gas</span>
           <span className="text-gray-300">
@@ -130,6 +149,24 @@ export function ChatTransactionPreview({
         </div>
       </div>
 
+      {/* Live drift since the quote */}
+      {drift && !executionLocked && drift.changePercent !== 0 && (
+        <div className="mb-4 flex justify-between text-xs">
+          <span className="text-gray-500">Live at block #{drift.blockNumber}</span>
+          <span className={drift.favorable ? 'text-green-400' : 'text-yellow-400'}>
+            {formatQuoteDrift(drift)}
+          </span>
+        </div>
+      )}
+      {executionLocked && drift && (
+        <div className="mb-4 rounded-lg bg-red-900/20 border border-red-500/30 p-3">
+          <div className="text-sm font-medium text-red-400">Price moved beyond slippage</div>
+          <div className="text-xs text-red-400/70">
+            Latest quote: {formatQuoteDrift(drift)}. Ask for a fresh quote before executing.
+          </div>
+        </div>
+      )}
+
       {/* Security Badge */}
       {data.secured && (
         <div className="mb-4 rounded-lg bg-green-900/20 border border-green-500/30 p-3 flex items-center gap-2">
@@ -153,7 +190,8 @@ export function ChatTransactionPreview({
           {!simulationPassed && onSimulate && (
             <button
               onClick={onSimulate}
-              className="flex-1 rounded-lg bg-blue-600 px-4 py-3 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+              disabled={executionLocked}
+              className="flex-1 rounded-lg bg-blue-600 px-4 py-3 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-600"
             >
               Simulate & Review
             </button>
@@ -161,7 +199,8 @@ export function ChatTransactionPreview({
           {onExecute && (
             <button
               onClick={onExecute}
-              className={`flex-1 rounded-lg px-4 py-3 text-sm font-medium text-white transition-colors ${
+              disabled={executionLocked}
+              className={`flex-1 rounded-lg px-4 py-3 text-sm font-medium text-white transition-colors disabled:cursor-not-allowed disabled:bg-gray-600 ${
                 simulationPassed
                   ? 'bg-green-600 hover:bg-green-700'
                   : 'bg-purple-600 hover:bg-purple-700'
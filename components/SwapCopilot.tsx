@@ -17,7 +17,7 @@ const formatTimestamp = (date: Date) =>
 interface SwapCopilotProps {
   messages: Message[];
   onMessagesChange: (messages: Message[]) => void;
-  onSwapIntent?: (tokenIn: string, tokenOut: string, amount: string) => void;
+  onSwapIntent?: (tokenIn: string, tokenOut: string, amount: string, amountOut?: string) => void;
   onModifyParams?: (params: { amount?: string; slippage?: number }) => void;
   onSimulate?: () => void;
   onExecute?: () => void;
@@ -55,6 +55,11 @@ export function SwapCopilot({
     }
   }, [transcript]);
 
+  // Only the most recent transaction preview reflects the live quote
+  const lastPreviewIndex = messages
+    ? messages.reduce((last, msg, idx) => (msg.transactionData ? idx : last), -1)
+    : -1;
+
   const handleSend = async () => {
     if (!input.trim() || loading) return;
 
@@ -151,8 +156,8 @@ export function SwapCopilot({
     }
 
     if (action.type === 'fetch_quote' && action.params && onSwapIntent) {
-      const { tokenIn, tokenOut, amount } = action.params;
-      onSwapIntent(tokenIn, tokenOut, amount);
+      const { tokenIn, tokenOut, amount, amountOut } = action.params;
+      onSwapIntent(tokenIn, tokenOut, amount, amountOut);
     } else if (action.type === 'modify_params' && action.params && onModifyParams) {
       onModifyParams(action.params);
     } else if (action.type === 'simulate' && onSimulate) {
@@ -217,6 +222,7 @@ export function SwapCopilot({
                         onSimulate={onSimulate}
                         onExecute={onExecute}
                         simulationPassed={swapContext.simulation?.success}
+                        drift={idx === lastPreviewIndex ? swapContext.quoteDrift : undefined}
                       />
                     </div>
                   )}
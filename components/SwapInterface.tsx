@@ -7,10 +7,25 @@ import {
   useImperativeHandle,
   useCallback,
   useMemo,
+  useRef,
 } from 'react';
-import { useAccount, useSendTransaction, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits } from 'viem';
+import {
+  useAccount,
+  useCapabilities,
+  useSendCalls,
+  useSendTransaction,
+  useSignTypedData,
+  useWaitForCallsStatus,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import { base } from 'wagmi/chains';
+import { parseUnits, formatUnits, maxUint256 } from 'viem';
 import { UNISWAP_CONTRACTS } from '@/lib/uniswap';
+import { computeQuoteDrift } from '@/lib/quote-drift';
+import { useQuoteStream } from '@/hooks/useQuoteStream';
+import { getImportGrants, type ImportedToken } from '@/lib/token-profile';
+import type { PermitTypedData } from '@/lib/permit2';
+import type { Erc2612TypedData } from '@/lib/erc2612';
 import { TransactionPreview } from './TransactionPreview';
 import { TransactionReceipt } from './TransactionReceipt';
 import { ApprovalStep } from './ApprovalStep';
@@ -18,7 +33,8 @@ import { ApprovalStep } from './ApprovalStep';
 interface ParsedIntent {
   token_in: string;
   token_out: string;
-  amount_in: number;
+  amount_in?: number;
+  amount_out?: number;
   slippage_tolerance?: number;
 }
 
@@ -30,12 +46,42 @@ interface QuoteToken {
   poolDecimals: number;
 }
 
+interface QuoteHop {
+  tokenIn: string;
+  tokenOut: string;
+  fee?: number;
+  stable?: boolean;
+}
+
+interface QuoteSplitLeg {
+  fee: number;
+  percent: number;
+  amountIn: string;
+  expectedOutput: string;
+  minOutput: string;
+}
+
 interface Quote {
+  tradeType?: 'exactInput' | 'exactOutput';
+  expectedInput?: string;
+  maxInput?: string;
   expectedOutput: string;
   minOutput: string;
   estimatedGas: string;
-  feeTier: number;
+  feeTier: number | null;
+  venue?: string;
+  venueName?: string;
+  // Contract the swap is sent to and the one that needs the token allowance
+  router?: string;
+  spender?: string;
   price: number;
+  route?: string;
+  hops?: QuoteHop[];
+  split?: { legs: QuoteSplitLeg[] } | null;
+  deadline?: number;
+  // Signed by get-quote; build-swap builds the transaction from it
+  quoteId?: string;
+  quoteTicket?: string;
   tokenIn: QuoteToken;
   tokenOut: QuoteToken;
 }
@@ -46,6 +92,18 @@ interface SimulationResult {
   error?: string;
 }
 
+// What build-permit says the wallet still has to do: approve Permit2 or sign a Permit2 permit,
+// or sign the token's own EIP-2612 permit. Typed data to sign comes with its sealed copy for build-swap
+type PermitRequirement =
+  | { method: 'permit2'; status: 'approve-permit2' | 'sign-permit'; typedData?: PermitTypedData; permit?: string }
+  | { method: 'erc2612'; status: 'sign-permit'; typedData: Erc2612TypedData; permit: string };
+
+interface SignedPermit {
+  method: PermitRequirement['method'];
+  permit: string;
+  signature: `0x${string}`;
+}
+
 type SwapStep =
   | 'input'
   | 'parsed'
@@ -56,6 +114,67 @@ type SwapStep =
   | 'executing'
   | 'complete';
 
+// Amount sold in human units: fixed for exact input, quoted for exact output
+function getInputAmount(intent: ParsedIntent, quote: Quote): number {
+  if (quote.tradeType === 'exactOutput' && quote.expectedInput) {
+    return Number(formatUnits(BigInt(quote.expectedInput), quote.tokenIn.decimals));
+  }
+  return intent.amount_in ?? 0;
+}
+
+// Most the swap can pull from the wallet (what an approval has to cover)
+function getMaxInputWei(intent: ParsedIntent, quote: Quote): bigint {
+  if (quote.tradeType === 'exactOutput' && quote.maxInput) {
+    return BigInt(quote.maxInput);
+  }
+  return parseUnits((intent.amount_in ?? 0).toString(), quote.tokenIn.decimals);
+}
+
+// Re-reads of an allowance after its approval confirmed; the RPC node serving reads can lag the receipt
+const ALLOWANCE_POLL_ATTEMPTS = 5;
+const ALLOWANCE_POLL_INTERVAL_MS = 1000;
+
+// Resolves once the allowance covers amount, or after the last attempt (the simulation then reports it)
+async function waitForAllowance(tokenAddress: string, owner: string, spender: string, amount: bigint): Promise<void> {
+  for (let attempt = 0; attempt < ALLOWANCE_POLL_ATTEMPTS; attempt++) {
+    const response = await fetch('/api/check-approval', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tokenAddress,
+        ownerAddress: owner,
+        spenderAddress: spender,
+        amount: amount.toString(),
+      }),
+    }).catch(() => null);
+    if (response?.ok && !(await response.json()).needsApproval) return;
+    await new Promise(resolve => setTimeout(resolve, ALLOWANCE_POLL_INTERVAL_MS));
+  }
+}
+
+// How ApprovalStep presents a requirement (classic router approval when there is none)
+function describePermitRequirement(requirement: PermitRequirement | null, venueName?: string) {
+  if (!requirement) {
+    return { mode: 'approve' as const, spenderName: `${venueName ?? 'Uniswap'} Router` };
+  }
+  if (requirement.method === 'erc2612') {
+    return {
+      mode: 'sign-token-permit' as const,
+      spenderName: 'Uniswap Router',
+      sigDeadline: Number(requirement.typedData.message.deadline),
+    };
+  }
+  if (requirement.status === 'approve-permit2' || !requirement.typedData) {
+    return { mode: 'approve-permit2' as const, spenderName: 'Permit2' };
+  }
+  return {
+    mode: 'sign-permit' as const,
+    spenderName: 'Uniswap Universal Router',
+    permitExpiration: requirement.typedData.message.details.expiration,
+    sigDeadline: Number(requirement.typedData.message.sigDeadline),
+  };
+}
+
 export interface SwapInterfaceHandle {
   simulate: () => Promise<void>;
   execute: () => Promise<void>;
@@ -66,22 +185,39 @@ interface SwapInterfaceProps {
     tokenIn: string;
     tokenOut: string;
     amount: string;
+    amountOut?: string;
   } | null;
   pendingSlippage?: number | null;
   onClearIntent?: () => void;
   onClearSlippage?: () => void;
   onContextUpdate?: (updates: any) => void;
+  // Tokens this wallet imported; their grants go with any quote that trades them
+  importedTokens?: ImportedToken[];
 }
 
 export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>(function SwapInterface(
   props,
   ref
 ) {
-  const { pendingIntent, pendingSlippage, onClearIntent, onClearSlippage, onContextUpdate } = props;
+  const { pendingIntent, pendingSlippage, onClearIntent, onClearSlippage, onContextUpdate, importedTokens } = props;
   const { address, isConnected } = useAccount();
   const { sendTransaction, data: txHash, reset: resetTx } = useSendTransaction();
+  const { signTypedDataAsync } = useSignTypedData();
   const { isLoading: isTxPending, isSuccess: isTxSuccess } = useWaitForTransactionReceipt({ hash: txHash });
 
+  // Smart wallets that batch atomically (EIP-5792) take approve + swap as one wallet_sendCalls
+  const { data: capabilities } = useCapabilities({ chainId: base.id });
+  const supportsAtomicBatch =
+    capabilities?.atomic?.status === 'supported' || capabilities?.atomic?.status === 'ready';
+  const { sendCallsAsync } = useSendCalls();
+  const [callsId, setCallsId] = useState<string | undefined>();
+  const { data: callsStatus, error: callsError } = useWaitForCallsStatus({ id: callsId });
+
+  // A batch settles as a whole; its last receipt is the swap
+  const executedHash = txHash ?? callsStatus?.receipts?.[callsStatus.receipts.length - 1]?.transactionHash;
+  const isSwapPending = isTxPending || (!!callsId && !callsStatus && !callsError);
+  const isSwapSuccess = isTxSuccess || callsStatus?.status === 'success';
+
   const [step, setStep] = useState<SwapStep>('input');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -92,12 +228,41 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
   const [txData, setTxData] = useState<any>(null);
   const [needsApproval, setNeedsApproval] = useState(false);
   const [isApprovingToken, setIsApprovingToken] = useState(false);
+  // Exact approval sent ahead of the swap in the same batch, when the wallet can batch
+  const [batchedApproval, setBatchedApproval] = useState<{ to: `0x${string}`; data: `0x${string}` } | null>(null);
+  const [permitRequirement, setPermitRequirement] = useState<PermitRequirement | null>(null);
   const [slippageTolerance, setSlippageTolerance] = useState<number>(0.5);
+  const [quoteExpired, setQuoteExpired] = useState(false);
+
+  // Re-quote on every block while the user is looking at or acting on a quote
+  const streamRequest = useMemo(() => {
+    if (!quote || !parsedIntent) return null;
+    if (step !== 'quote' && step !== 'approval_needed' && step !== 'simulated') return null;
+    const importGrants = getImportGrants(importedTokens ?? [], [parsedIntent.token_in, parsedIntent.token_out]);
+    return {
+      tokenIn: parsedIntent.token_in,
+      tokenOut: parsedIntent.token_out,
+      amountIn: parsedIntent.amount_in,
+      amountOut: parsedIntent.amount_out,
+      slippage: slippageTolerance,
+      recipient: address,
+      importedTokens: importGrants.length > 0 ? importGrants : undefined,
+    };
+  }, [quote, parsedIntent, step, slippageTolerance, address, importedTokens]);
+  const { latest: liveQuote, blockNumber: liveBlockNumber } = useQuoteStream<Quote>(streamRequest);
+
+  const quoteDrift = useMemo(
+    () => (quote && liveQuote && liveBlockNumber ? computeQuoteDrift(quote, liveQuote, liveBlockNumber) : null),
+    [quote, liveQuote, liveBlockNumber]
+  );
+  // The quote's slippage bound no longer holds at the live price; the swap would revert
+  const executionLocked = !!quoteDrift?.exceedsSlippage;
 
   const quoteRoute = useMemo(() => {
+    if (quote?.route) return quote.route;
     if (!parsedIntent) return '';
     return `${parsedIntent.token_in} → ${parsedIntent.token_out}`;
-  }, [parsedIntent]);
+  }, [parsedIntent, quote]);
 
   const fetchQuoteForIntent = useCallback(
     async (intent: ParsedIntent, slippage: number, clearIntent = false, clearSlippage = false) => {
@@ -112,7 +277,10 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
             tokenIn: intent.token_in,
             tokenOut: intent.token_out,
             amountIn: intent.amount_in,
+            amountOut: intent.amount_out,
             slippage,
+            recipient: address,
+            importedTokens: getImportGrants(importedTokens ?? [], [intent.token_in, intent.token_out]),
           }),
         });
 
@@ -123,6 +291,8 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
 
         const data = await response.json();
         setQuote({ ...data, price: Number(data.price) });
+        setQuoteExpired(false);
+        setPermitRequirement(null);
         setStep('quote');
 
         if (onContextUpdate) {
@@ -135,14 +305,19 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
           onContextUpdate({
             tokenIn: intent.token_in,
             tokenOut: intent.token_out,
-            amount: intent.amount_in.toString(),
+            amount: getInputAmount(intent, data).toString(),
+            amountOut: intent.amount_out?.toString(),
             quote: {
+              tradeType: data.tradeType,
+              maxInput: data.maxInput,
               expectedOutput: data.expectedOutput,
               minOutput: data.minOutput,
               estimatedGas: data.estimatedGas,
               feeTier: data.feeTier,
-              route: `${intent.token_in} → ${intent.token_out}`,
+              venueName: data.venueName,
+              route: data.route || `${intent.token_in} → ${intent.token_out}`,
               priceImpact,
+              poolLiquidityUSD: data.poolLiquidityUSD ?? undefined,
             },
             slippage,
           });
@@ -156,17 +331,23 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
         setLoading(false);
       }
     },
-    [onClearIntent, onClearSlippage, onContextUpdate]
+    [address, importedTokens, onClearIntent, onClearSlippage, onContextUpdate]
   );
 
   // Handle copilot intent
   useEffect(() => {
     if (!pendingIntent) return;
-    const intent: ParsedIntent = {
-      token_in: pendingIntent.tokenIn,
-      token_out: pendingIntent.tokenOut,
-      amount_in: parseFloat(pendingIntent.amount),
-    };
+    const intent: ParsedIntent = pendingIntent.amountOut
+      ? {
+          token_in: pendingIntent.tokenIn,
+          token_out: pendingIntent.tokenOut,
+          amount_out: parseFloat(pendingIntent.amountOut),
+        }
+      : {
+          token_in: pendingIntent.tokenIn,
+          token_out: pendingIntent.tokenOut,
+          amount_in: parseFloat(pendingIntent.amount),
+        };
     setParsedIntent(intent);
     setStep('parsed');
 
@@ -196,24 +377,17 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
     setError(null);
     setNeedsApproval(false);
     setIsApprovingToken(false);
+    setPermitRequirement(null);
+    setBatchedApproval(null);
+    setCallsId(undefined);
     setSlippageTolerance(0.5);
+    setQuoteExpired(false);
     resetTx(); // Clear txHash from wagmi
   }, [resetTx]);
 
-  // Handle approval transaction success
-  useEffect(() => {
-    if (isApprovingToken && isTxSuccess && step === 'approving') {
-      setIsApprovingToken(false);
-      setLoading(false);
-      setTimeout(() => {
-        handleSimulate();
-      }, 3000);
-    }
-  }, [isTxSuccess, isApprovingToken, step]);
-
   // Handle swap transaction success - advance to complete and auto-reset
   useEffect(() => {
-    if (isTxSuccess && step === 'executing' && !isApprovingToken) {
+    if (isSwapSuccess && step === 'executing' && !isApprovingToken) {
       setStep('complete');
       setLoading(false);
 
@@ -224,41 +398,122 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
 
       return () => clearTimeout(resetTimer);
     }
-  }, [isTxSuccess, step, isApprovingToken, handleReset]);
+  }, [isSwapSuccess, step, isApprovingToken, handleReset]);
+
+  // A batch that reverted or never landed goes back to review; nothing in it executed
+  useEffect(() => {
+    if (step !== 'executing' || !callsId) return;
+    if (callsStatus?.status === 'failure' || callsError) {
+      setError(callsError?.message ?? 'Batched swap reverted');
+      setCallsId(undefined);
+      setStep('simulated');
+    }
+  }, [callsStatus, callsError, callsId, step]);
 
   // Update context with transaction status
   useEffect(() => {
-    if (!txHash || !onContextUpdate) return;
-    const status: 'pending' | 'success' | 'failed' = isTxSuccess
+    if (!executedHash || !onContextUpdate) return;
+    const status: 'pending' | 'success' | 'failed' = isSwapSuccess
       ? 'success'
-      : isTxPending
+      : isSwapPending
       ? 'pending'
       : 'failed';
 
     onContextUpdate({
       transaction: {
-        hash: txHash,
+        hash: executedHash,
         status,
       },
     });
-  }, [txHash, isTxPending, isTxSuccess, onContextUpdate]);
+  }, [executedHash, isSwapPending, isSwapSuccess, onContextUpdate]);
+
+  // Share drift with the copilot preview (only when what it shows changes, not every block);
+  // the ref hands the effect the latest drift without making every block's new object a dependency
+  const quoteDriftRef = useRef(quoteDrift);
+  quoteDriftRef.current = quoteDrift;
+  const driftChangePercent = quoteDrift?.changePercent;
+  const driftExceedsSlippage = quoteDrift?.exceedsSlippage;
+  const driftSide = quoteDrift?.side;
+  useEffect(() => {
+    if (!onContextUpdate) return;
+    onContextUpdate({ quoteDrift: quoteDriftRef.current ?? undefined });
+  }, [driftChangePercent, driftExceedsSlippage, driftSide, onContextUpdate]);
 
   const handleFetchQuote = useCallback(() => {
     if (!parsedIntent) return;
     fetchQuoteForIntent(parsedIntent, slippageTolerance);
   }, [parsedIntent, slippageTolerance, fetchQuoteForIntent]);
 
-  const handleSimulate = useCallback(async () => {
+  const handleQuoteExpired = useCallback(() => {
+    setQuoteExpired(true);
+  }, []);
+
+  // signedPermit is the user's signature over the permit build-permit returned, redeemed by the swap itself
+  const handleSimulate = useCallback(async (signedPermit?: SignedPermit) => {
     if (!parsedIntent || !address || !quote) return;
 
+    if (executionLocked) {
+      setError('Price moved beyond your slippage tolerance. Refresh the quote to continue.');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
+      if (quote.deadline && quote.deadline <= Math.floor(Date.now() / 1000)) {
+        setQuoteExpired(true);
+        throw new Error('Quote expired. Please refresh the quote.');
+      }
+
       const isSellingERC20 = quote.tokenIn.symbol !== 'ETH';
+      // Signed permits go to build-swap under their standard; an empty permit2 spends a live allowance
+      let permit2: { permit?: string; signature?: string } | undefined;
+      let erc2612: { permit: string; signature: string } | undefined;
+      if (signedPermit) {
+        const { method, ...signed } = signedPermit;
+        if (method === 'erc2612') erc2612 = signed;
+        else permit2 = signed;
+      }
 
-      if (isSellingERC20) {
-        const amountWei = parseUnits(parsedIntent.amount_in.toString(), quote.tokenIn.decimals);
+      // Smart wallets skip permits: an exact approve rides in the same atomic batch as the swap
+      const batchApproval = isSellingERC20 && supportsAtomicBatch && !signedPermit;
+      let approvalCall: { to: `0x${string}`; data: `0x${string}` } | null = null;
+
+      if (isSellingERC20 && !signedPermit && !batchApproval) {
+        const permitResponse = await fetch('/api/build-permit', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quoteTicket: quote.quoteTicket, from: address }),
+        });
+
+        if (!permitResponse.ok) {
+          const data = await permitResponse.json();
+          throw new Error(data.error || 'Failed to check approval');
+        }
+
+        const permitData = await permitResponse.json();
+
+        if (permitData.method === 'permit2' || permitData.method === 'erc2612') {
+          if (permitData.status !== 'permitted') {
+            setPermitRequirement({
+              method: permitData.method,
+              status: permitData.status,
+              typedData: permitData.typedData,
+              permit: permitData.permit,
+            });
+            setNeedsApproval(true);
+            setStep('approval_needed');
+            setLoading(false);
+            return;
+          }
+          // A live Permit2 allowance covers the swap; nothing to sign
+          permit2 = {};
+        }
+      }
+
+      if (isSellingERC20 && !permit2 && !erc2612) {
+        const amountWei = getMaxInputWei(parsedIntent, quote);
 
         const approvalCheck = await fetch('/api/check-approval', {
           method: 'POST',
@@ -266,7 +521,7 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
           body: JSON.stringify({
             tokenAddress: quote.tokenIn.poolAddress,
             ownerAddress: address,
-            spenderAddress: UNISWAP_CONTRACTS.SwapRouter02,
+            spenderAddress: quote.spender ?? UNISWAP_CONTRACTS.SwapRouter02,
             amount: amountWei.toString(),
           }),
         });
@@ -277,7 +532,26 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
 
         const approvalData = await approvalCheck.json();
 
-        if (approvalData.needsApproval) {
+        if (approvalData.needsApproval && batchApproval) {
+          const approvalResponse = await fetch('/api/build-approval', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              tokenSymbol: quote.tokenIn.symbol,
+              spenderAddress: quote.spender ?? UNISWAP_CONTRACTS.SwapRouter02,
+              quoteTicket: quote.quoteTicket,
+              from: address,
+            }),
+          });
+
+          if (!approvalResponse.ok) {
+            const data = await approvalResponse.json();
+            throw new Error(data.error || 'Failed to build approval');
+          }
+
+          const approvalTx = await approvalResponse.json();
+          approvalCall = { to: approvalTx.to, data: approvalTx.data };
+        } else if (approvalData.needsApproval) {
           setNeedsApproval(true);
           setStep('approval_needed');
           setLoading(false);
@@ -291,10 +565,12 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
         body: JSON.stringify({
           tokenIn: quote.tokenIn,
           tokenOut: quote.tokenOut,
-          amountIn: parsedIntent.amount_in,
-          feeTier: quote.feeTier,
           minOutput: quote.minOutput,
+          maxInput: quote.maxInput,
+          quoteTicket: quote.quoteTicket,
           from: address,
+          permit2,
+          erc2612,
         }),
       });
 
@@ -305,16 +581,21 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
 
       const txDataResponse = await buildResponse.json();
       setTxData(txDataResponse);
+      setBatchedApproval(approvalCall);
 
+      const swapCall = {
+        to: txDataResponse.to,
+        data: txDataResponse.data,
+        value: txDataResponse.value || '0',
+      };
       const simResponse = await fetch('/api/simulate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          from: address,
-          to: txDataResponse.to,
-          data: txDataResponse.data,
-          value: txDataResponse.value || '0',
-        }),
+        body: JSON.stringify(
+          approvalCall
+            ? { from: address, calls: [{ ...approvalCall, value: '0' }, swapCall] }
+            : { from: address, ...swapCall }
+        ),
       });
 
       if (!simResponse.ok) {
@@ -340,6 +621,7 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
       }
 
       setNeedsApproval(false);
+      setPermitRequirement(null);
       setStep('simulated');
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Simulation failed';
@@ -355,7 +637,23 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
     } finally {
       setLoading(false);
     }
-  }, [parsedIntent, address, quote, onContextUpdate]);
+  }, [parsedIntent, address, quote, executionLocked, supportsAtomicBatch, onContextUpdate]);
+
+  // Handle approval transaction success
+  useEffect(() => {
+    if (isApprovingToken && isTxSuccess && step === 'approving' && quote && parsedIntent && address) {
+      setIsApprovingToken(false);
+      setLoading(false);
+      const spender =
+        permitRequirement?.status === 'approve-permit2'
+          ? UNISWAP_CONTRACTS.Permit2
+          : quote.spender ?? UNISWAP_CONTRACTS.SwapRouter02;
+      // Re-simulate once reads see the new allowance, not merely once the receipt is in
+      waitForAllowance(quote.tokenIn.poolAddress, address, spender, getMaxInputWei(parsedIntent, quote)).then(() =>
+        handleSimulate()
+      );
+    }
+  }, [isTxSuccess, isApprovingToken, step, quote, parsedIntent, address, permitRequirement, handleSimulate]);
 
   const handleApprove = async (isUnlimited: boolean) => {
     if (!parsedIntent || !address || !quote) return;
@@ -366,22 +664,29 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
     setIsApprovingToken(true);
 
     try {
-      const amountWei = isUnlimited
-        ? '115792089237316195423570985008687907853269984665640564039457584007913129639935'
-        : parseUnits(parsedIntent.amount_in.toString(), quote.tokenIn.decimals).toString();
+      // Permit2 swaps approve Permit2 once, in full; the router's allowance is signed per swap
+      const isPermit2Approval = permitRequirement?.status === 'approve-permit2';
+      const spenderAddress = isPermit2Approval
+        ? UNISWAP_CONTRACTS.Permit2
+        : quote.spender ?? UNISWAP_CONTRACTS.SwapRouter02;
 
       const approvalResponse = await fetch('/api/build-approval', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          tokenAddress: quote.tokenIn.poolAddress,
-          spenderAddress: UNISWAP_CONTRACTS.SwapRouter02,
-          amount: amountWei,
+          tokenSymbol: quote.tokenIn.symbol,
+          spenderAddress,
+          // Routers get exactly what the quoted swap can pull unless the user chose unlimited
+          amount: isPermit2Approval ? maxUint256.toString() : undefined,
+          unlimited: !isPermit2Approval && isUnlimited,
+          quoteTicket: quote.quoteTicket,
+          from: address,
         }),
       });
 
       if (!approvalResponse.ok) {
-        throw new Error('Failed to build approval');
+        const data = await approvalResponse.json();
+        throw new Error(data.error || 'Failed to build approval');
       }
 
       const approvalTx = await approvalResponse.json();
@@ -399,19 +704,84 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
     }
   };
 
+  const handleSignPermit = async () => {
+    if (!permitRequirement?.typedData || !permitRequirement.permit) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // uint fields arrive as decimal strings; the wallet signs them as numbers
+      let signature: `0x${string}`;
+      if (permitRequirement.method === 'erc2612') {
+        const { domain, types, primaryType, message } = permitRequirement.typedData;
+        signature = await signTypedDataAsync({
+          domain,
+          types,
+          primaryType,
+          message: {
+            ...message,
+            value: BigInt(message.value),
+            nonce: BigInt(message.nonce),
+            deadline: BigInt(message.deadline),
+          },
+        });
+      } else {
+        const { domain, types, primaryType, message } = permitRequirement.typedData;
+        signature = await signTypedDataAsync({
+          domain,
+          types,
+          primaryType,
+          message: {
+            ...message,
+            details: { ...message.details, amount: BigInt(message.details.amount) },
+            sigDeadline: BigInt(message.sigDeadline),
+          },
+        });
+      }
+      await handleSimulate({ method: permitRequirement.method, permit: permitRequirement.permit, signature });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Permit signature failed');
+      setLoading(false);
+    }
+  };
+
   const handleExecuteSwap = useCallback(async () => {
     if (!txData) return;
 
+    // The router would revert after the deadline; send the user back for a fresh quote
+    if (txData.deadline && txData.deadline <= Math.floor(Date.now() / 1000)) {
+      setError('Quote expired. Please refresh the quote.');
+      setQuoteExpired(true);
+      setStep('quote');
+      return;
+    }
+
+    if (executionLocked) {
+      setError('Price moved beyond your slippage tolerance. Refresh the quote to continue.');
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setStep('executing');
 
     try {
-      await sendTransaction({
+      const swapCall = {
         to: txData.to as `0x${string}`,
         data: txData.data as `0x${string}`,
         value: BigInt(txData.value || '0'),
-      });
+      };
+      if (batchedApproval) {
+        // One signature; the wallet lands both calls or neither
+        const { id } = await sendCallsAsync({
+          calls: [batchedApproval, swapCall],
+          forceAtomic: true,
+        });
+        setCallsId(id);
+      } else {
+        await sendTransaction(swapCall);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Transaction failed');
       setStep('simulated');
@@ -426,7 +796,7 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
     } finally {
       setLoading(false);
     }
-  }, [txData, sendTransaction, onContextUpdate, txHash]);
+  }, [txData, executionLocked, batchedApproval, sendCallsAsync, sendTransaction, onContextUpdate, txHash]);
 
   useImperativeHandle(
     ref,
@@ -469,8 +839,12 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
               <span className="font-mono font-semibold text-gray-900">{parsedIntent.token_out}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-700 font-medium">Amount:</span>
-              <span className="font-mono font-semibold text-gray-900">{parsedIntent.amount_in}</span>
+              <span className="text-gray-700 font-medium">
+                {parsedIntent.amount_out !== undefined ? 'Receive Exactly:' : 'Amount:'}
+              </span>
+              <span className="font-mono font-semibold text-gray-900">
+                {parsedIntent.amount_out ?? parsedIntent.amount_in}
+              </span>
             </div>
           </div>
           <button
@@ -487,13 +861,16 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
         <div className="space-y-4">
           <TransactionPreview
             quote={quote}
-            amountIn={parsedIntent.amount_in}
+            amountIn={getInputAmount(parsedIntent, quote)}
             slippage={slippageTolerance}
+            drift={quoteDrift}
+            onExpire={handleQuoteExpired}
+            onRequote={handleFetchQuote}
           />
 
           <button
-            onClick={handleSimulate}
-            disabled={loading}
+            onClick={() => handleSimulate()}
+            disabled={loading || quoteExpired || executionLocked}
             className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
           >
             {loading ? (
@@ -514,9 +891,10 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
       {step === 'approval_needed' && quote && parsedIntent && (
         <ApprovalStep
           token={quote.tokenIn}
-          amount={parsedIntent.amount_in}
-          spenderName="Uniswap Router"
+          amount={Number(formatUnits(getMaxInputWei(parsedIntent, quote), quote.tokenIn.decimals))}
+          {...describePermitRequirement(permitRequirement, quote.venueName)}
           onApprove={handleApprove}
+          onSignPermit={handleSignPermit}
           loading={loading}
         />
       )}
@@ -535,9 +913,29 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
           <div className="text-xs text-gray-600 bg-white rounded p-2 border">
             <span className="font-medium">🛡️ Secured by Tenderly</span> • Gas Used: {simulation.gasUsed}
           </div>
+          {batchedApproval && (
+            <p className="text-xs text-gray-600">
+              Your wallet will approve exactly this swap&apos;s {quote?.tokenIn.symbol} and execute it in one atomic
+              batch: one signature, and neither call lands without the other.
+            </p>
+          )}
+          {executionLocked && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 space-y-2">
+              <p className="text-sm font-semibold text-red-900">Price moved beyond your slippage</p>
+              <p className="text-xs text-red-700">
+                The latest quote is outside your {slippageTolerance}% tolerance, so this swap would revert.
+              </p>
+              <button
+                onClick={handleFetchQuote}
+                className="w-full bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 transition-colors text-sm"
+              >
+                Refresh Quote
+              </button>
+            </div>
+          )}
           <button
             onClick={handleExecuteSwap}
-            disabled={loading}
+            disabled={loading || executionLocked}
             className="w-full bg-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-purple-700 disabled:bg-gray-300 transition-colors"
           >
             {loading ? (
@@ -555,18 +953,18 @@ export const SwapInterface = forwardRef<SwapInterfaceHandle, SwapInterfaceProps>
         </div>
       )}
 
-      {step === 'executing' && isTxPending && (
+      {step === 'executing' && isSwapPending && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 text-center">
           <p className="text-yellow-900 font-semibold">⏳ Transaction Pending...</p>
           <p className="text-sm text-gray-600 mt-2">Waiting for confirmation</p>
         </div>
       )}
 
-      {step === 'complete' && isTxSuccess && txHash && quote && parsedIntent && (
+      {step === 'complete' && isSwapSuccess && executedHash && quote && parsedIntent && (
         <TransactionReceipt
           quote={quote}
-          amountIn={parsedIntent.amount_in}
-          txHash={txHash}
+          amountIn={getInputAmount(parsedIntent, quote)}
+          txHash={executedHash}
           simulation={simulation || undefined}
           onNewSwap={handleReset}
         />
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { formatUnits, getAddress, isAddress } from 'viem';
+import {
+  addImportedToken,
+  getTokenImportMessage,
+  isImportExpired,
+  removeImportedToken,
+  type ImportedToken,
+} from '@/lib/token-profile';
+import type { TokenInfo } from '@/lib/tokens';
+
+interface SafetyReport {
+  simulated: boolean;
+  buyTaxPercent: number | null;
+  transferTaxPercent: number | null;
+  feeOnTransfer: boolean;
+  upgradeable: boolean;
+  blacklist: boolean;
+  owner: string | null;
+}
+
+interface RiskFactor {
+  name: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  description: string;
+}
+
+interface ImportCheck {
+  token: TokenInfo;
+  totalSupply: string | null;
+  safety: SafetyReport;
+  risk: RiskFactor | null;
+  // Only present when the request carried the wallet's signature
+  importGrant?: string;
+}
+
+interface TokenImportProps {
+  importedTokens: ImportedToken[];
+  onImportedTokensChange: (tokens: ImportedToken[]) => void;
+}
+
+// Everything the scan found, worst first; an import always carries at least the "not reviewed" warning
+function describeFindings(check: ImportCheck): string[] {
+  const { safety, token } = check;
+  const findings: string[] = [];
+  if (safety.feeOnTransfer) {
+    const tax = Math.max(safety.buyTaxPercent ?? 0, safety.transferTaxPercent ?? 0);
+    findings.push(`Takes a ${tax.toFixed(2)}% fee on transfers. Swaps may revert or return less than quoted.`);
+  }
+  if (safety.blacklist && safety.owner) {
+    findings.push('Its owner can block addresses from transferring it.');
+  }
+  if (safety.upgradeable) {
+    findings.push('It is a proxy: its code can be replaced at any time.');
+  }
+  if (!safety.simulated) {
+    findings.push('It could not be test-traded, so taxes and sell blocks are unknown.');
+  }
+  findings.push(`${token.symbol} is not on any reviewed token list. Anyone can deploy a token with any name.`);
+  return findings;
+}
+
+export function TokenImport({ importedTokens, onImportedTokensChange }: TokenImportProps) {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [check, setCheck] = useState<ImportCheck | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!address) return null;
+
+  const reset = () => {
+    setCheck(null);
+    setAcknowledged(false);
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleCheck = async () => {
+    reset();
+    if (!isAddress(tokenAddress.trim())) {
+      setError('Enter a token contract address (0x...)');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/import-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: tokenAddress.trim(), wallet: address }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check token');
+      }
+
+      if (data.status === 'listed') {
+        setNotice(`${data.token.symbol} is already supported. Ask the copilot to swap it by symbol.`);
+      } else {
+        setCheck(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check token');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The grant is bound to this wallet, so the wallet signs for it; the token is checked again as it is issued
+  const handleImport = async () => {
+    if (!check || !acknowledged) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const signature = await signMessageAsync({
+        message: getTokenImportMessage(getAddress(check.token.address), getAddress(address), issuedAt),
+      });
+
+      const response = await fetch('/api/import-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: check.token.address, wallet: address, issuedAt, signature }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import token');
+      }
+      if (!data.importGrant) {
+        throw new Error(`${check.token.symbol} can no longer be imported`);
+      }
+
+      const tokens = addImportedToken(address, {
+        token: data.token,
+        importGrant: data.importGrant,
+        importedAt: new Date(issuedAt * 1000).toISOString(),
+        warning: data.risk?.description ?? null,
+      });
+      onImportedTokensChange(tokens);
+      setNotice(`${data.token.symbol} imported. Only this wallet can swap it.`);
+      setCheck(null);
+      setAcknowledged(false);
+      setTokenAddress('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import token');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (removed: string) => {
+    onImportedTokensChange(removeImportedToken(address, removed));
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">Import a token</h3>
+        <span className="text-xs text-gray-500">Paste a contract address on Base</span>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={tokenAddress}
+          onChange={event => {
+            setTokenAddress(event.target.value);
+            reset();
+          }}
+          placeholder="0x..."
+          className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={handleCheck}
+          disabled={loading || !tokenAddress}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+        >
+          {loading ? 'Checking...' : 'Check'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      {/* Warning card: shown for every unlisted token, whatever the scan found */}
+      {check && (
+        <div className="border-2 border-red-500 bg-red-950/40 rounded-lg p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <span className="text-2xl">⚠️</span>
+            <div>
+              <h4 className="text-red-300 font-bold">Unverified token: trade at your own risk</h4>
+              <p className="text-sm text-red-200">
+                {check.token.name} ({check.token.symbol})
+              </p>
+              <p className="text-xs text-gray-400 font-mono break-all">{check.token.address}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-300">
+            <div>Decimals: {check.token.decimals}</div>
+            <div>
+              Supply:{' '}
+              {check.totalSupply
+                ? Number(formatUnits(BigInt(check.totalSupply), check.token.decimals)).toLocaleString('en-US')
+                : 'unknown'}
+            </div>
+          </div>
+
+          {check.risk && (
+            <p className="text-sm text-red-200">
+              <span className="font-semibold uppercase">{check.risk.severity} risk:</span> {check.risk.description}
+            </p>
+          )}
+
+          <ul className="text-sm text-red-200 list-disc pl-5 space-y-1">
+            {describeFindings(check).map(finding => (
+              <li key={finding}>{finding}</li>
+            ))}
+          </ul>
+
+          <label className="flex items-start gap-2 text-sm text-gray-200">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={event => setAcknowledged(event.target.checked)}
+              className="mt-1"
+            />
+            <span>I understand this token is unverified and I could lose everything I swap into it.</span>
+          </label>
+
+          <button
+            onClick={handleImport}
+            disabled={!acknowledged || loading}
+            className="w-full py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {loading ? 'Sign in your wallet...' : `Import ${check.token.symbol}`}
+          </button>
+        </div>
+      )}
+
+      {importedTokens.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">Imported by this wallet</p>
+          {importedTokens.map(imported => (
+            <div
+              key={imported.token.address}
+              className="flex items-center justify-between text-sm bg-gray-900 rounded px-3 py-2"
+            >
+              <div>
+                <span className="text-white font-medium">{imported.token.symbol}</span>
+                <span className="ml-2 px-1.5 py-0.5 bg-red-600/20 border border-red-600/40 text-red-400 text-xs rounded">
+                  UNVERIFIED
+                </span>
+                {isImportExpired(imported) && (
+                  <span className="ml-1 px-1.5 py-0.5 bg-yellow-600/20 border border-yellow-600/40 text-yellow-400 text-xs rounded">
+                    EXPIRED
+                  </span>
+                )}
+                {imported.warning && <p className="text-xs text-gray-400">{imported.warning}</p>}
+                {isImportExpired(imported) && (
+                  <p className="text-xs text-yellow-500/80">Import it again to re-run the safety check and keep swapping it.</p>
+                )}
+              </div>
+              <button
+                onClick={() => handleRemove(imported.token.address)}
+                className="text-gray-400 hover:text-white text-xs underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
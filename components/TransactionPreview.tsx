@@ -1,6 +1,8 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { formatUnits } from 'viem';
+import { formatQuoteDrift, type QuoteDrift } from '@/lib/quote-drift';
 
 interface QuoteToken {
   symbol: string;
@@ -10,12 +12,49 @@ interface QuoteToken {
   poolDecimals: number;
 }
 
+interface QuoteHop {
+  tokenIn: string;
+  tokenOut: string;
+  // Uniswap V3 hops carry a fee tier, Aerodrome hops a stable/volatile pool type
+  fee?: number;
+  stable?: boolean;
+}
+
+interface QuoteGasCost {
+  l2FeeWei: string;
+  l1FeeWei: string;
+  totalWei: string;
+  inToken: string | null;
+  token: string;
+}
+
+interface QuoteSplitLeg {
+  fee: number;
+  percent: number;
+  amountIn: string;
+  expectedOutput: string;
+  minOutput: string;
+}
+
 interface Quote {
+  tradeType?: 'exactInput' | 'exactOutput';
+  maxInput?: string;
   expectedOutput: string;
   minOutput: string;
+  netOutput?: string | null;
+  netInput?: string | null;
+  gasCost?: QuoteGasCost | null;
   estimatedGas: string;
-  feeTier: number;
+  feeTier: number | null;
+  venue?: string;
+  venueName?: string;
   price: number;
+  midPrice?: number | null;
+  priceImpact?: number | null;
+  route?: string;
+  hops?: QuoteHop[];
+  split?: { legs: QuoteSplitLeg[] } | null;
+  deadline?: number;
   tokenIn: QuoteToken;
   tokenOut: QuoteToken;
 }
@@ -24,9 +63,40 @@ interface TransactionPreviewProps {
   quote: Quote;
   amountIn: number;
   slippage?: number;
+  // Live re-quote drift from useQuoteStream, if streaming
+  drift?: QuoteDrift | null;
+  onExpire?: () => void;
+  onRequote?: () => void;
 }
 
-export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: TransactionPreviewProps) {
+export function TransactionPreview({
+  quote,
+  amountIn,
+  slippage = 0.5,
+  drift,
+  onExpire,
+  onRequote
+}: TransactionPreviewProps) {
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  // Tick once a second while the quote has a deadline
+  useEffect(() => {
+    if (!quote.deadline) return;
+    setNow(Math.floor(Date.now() / 1000));
+    const timer = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [quote.deadline]);
+
+  const secondsLeft = quote.deadline ? Math.max(0, quote.deadline - now) : null;
+  const isExpired = secondsLeft === 0;
+
+  useEffect(() => {
+    if (isExpired && onExpire) onExpire();
+  }, [isExpired, onExpire]);
+
   const expectedOutput = parseFloat(
     formatUnits(BigInt(quote.expectedOutput), quote.tokenOut.poolDecimals)
   );
@@ -34,15 +104,46 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
     formatUnits(BigInt(quote.minOutput), quote.tokenOut.poolDecimals)
   );
 
-  const priceImpact = ((expectedOutput - minOutput) / expectedOutput) * 100;
+  // Measured against the pool mid price by get-quote; unknown if the pool state could not be read
+  const priceImpact = quote.priceImpact ?? 0;
+
+  // Exact output swaps fix what you receive and cap what you pay instead
+  const isExactOutput = quote.tradeType === 'exactOutput' && !!quote.maxInput;
+  const maxInput = isExactOutput
+    ? parseFloat(formatUnits(BigInt(quote.maxInput!), quote.tokenIn.decimals))
+    : null;
 
-  // Convert gas to ETH (assuming ~2 gwei gas price on Base)
-  const gasInEth = (parseInt(quote.estimatedGas) * 2) / 1e9;
+  // Gas priced by get-quote (L2 execution + L1 data fee), else assume ~2 gwei on Base
+  const gasInEth = quote.gasCost
+    ? parseFloat(formatUnits(BigInt(quote.gasCost.totalWei), 18))
+    : (parseInt(quote.estimatedGas) * 2) / 1e9;
+  const netOutput = quote.netOutput
+    ? parseFloat(formatUnits(BigInt(quote.netOutput), quote.tokenOut.poolDecimals))
+    : null;
+  const netInput = quote.netInput
+    ? parseFloat(formatUnits(BigInt(quote.netInput), quote.tokenIn.poolDecimals))
+    : null;
   // Rough ETH price estimate - could fetch from oracle in production
   const ethPriceUsd = quote.tokenIn.symbol === 'ETH' ? quote.price :
                       quote.tokenOut.symbol === 'ETH' ? (1 / quote.price) : 3800;
   const gasInUsd = gasInEth * ethPriceUsd;
 
+  // Path shown to the user: native ETH at the endpoints, pool tokens in between
+  const hops = quote.hops && quote.hops.length > 0
+    ? quote.hops
+    : [{ tokenIn: quote.tokenIn.symbol, tokenOut: quote.tokenOut.symbol, fee: quote.feeTier ?? undefined }];
+  const intermediateTokens = hops.slice(0, -1).map(hop => hop.tokenOut);
+  const venueName = quote.venueName ?? 'Uniswap V3';
+  const isSolidlyRoute = hops.some(hop => hop.stable !== undefined);
+  const feeTiers = hops
+    .map(hop =>
+      hop.stable !== undefined
+        ? (hop.stable ? 'Stable' : 'Volatile')
+        : `${((hop.fee ?? 0) / 10000).toFixed(2)}%`
+    )
+    .join(' → ');
+  const splitLegs = quote.split?.legs ?? [];
+
   return (
     <div className="bg-gradient-to-br from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-900 rounded-xl border-2 border-blue-200 dark:border-blue-800 p-6 space-y-4">
       {/* Header */}
@@ -50,7 +151,7 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
         <h3 className="font-bold text-lg text-gray-900 dark:text-white">Transaction Preview</h3>
         <div className="px-3 py-1 bg-blue-100 dark:bg-blue-900 rounded-full">
           <span className="text-xs font-semibold text-blue-800 dark:text-blue-200">
-            Uniswap V3
+            {venueName}
           </span>
         </div>
       </div>
@@ -61,7 +162,7 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
           <div className="flex justify-between items-center">
             <span className="text-sm text-gray-600 dark:text-gray-400">You Pay</span>
             <span className="text-xl font-bold text-gray-900 dark:text-white">
-              {amountIn} {quote.tokenIn.symbol}
+              {isExactOutput ? `~${amountIn.toFixed(6)}` : amountIn} {quote.tokenIn.symbol}
             </span>
           </div>
 
@@ -74,7 +175,7 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
           <div className="flex justify-between items-center">
             <span className="text-sm text-gray-600 dark:text-gray-400">You Receive</span>
             <span className="text-xl font-bold text-green-600 dark:text-green-400">
-              ~{expectedOutput.toFixed(6)} {quote.tokenOut.symbol}
+              {isExactOutput ? '' : '~'}{expectedOutput.toFixed(6)} {quote.tokenOut.symbol}
             </span>
           </div>
         </div>
@@ -86,6 +187,14 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
               1 {quote.tokenIn.symbol} = {quote.price.toFixed(2)} {quote.tokenOut.symbol}
             </span>
           </div>
+          {quote.midPrice != null && (
+            <div className="flex justify-between items-center text-sm mt-1">
+              <span className="text-gray-600 dark:text-gray-400">Pool Mid Price</span>
+              <span className="font-mono text-gray-500 dark:text-gray-400">
+                1 {quote.tokenIn.symbol} = {quote.midPrice.toFixed(2)} {quote.tokenOut.symbol}
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -101,22 +210,62 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
           <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 rounded font-medium text-blue-800 dark:text-blue-200">
             {quote.tokenIn.symbol}
           </span>
-          <span className="text-gray-500 dark:text-gray-400">Direct Swap</span>
+          {intermediateTokens.length === 0 ? (
+            <span className="text-gray-500 dark:text-gray-400">Direct Swap</span>
+          ) : (
+            intermediateTokens.map((symbol, i) => (
+              <span
+                key={`${symbol}-${i}`}
+                className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded font-medium text-gray-700 dark:text-gray-200"
+              >
+                {symbol}
+              </span>
+            ))
+          )}
           <span className="px-2 py-1 bg-purple-100 dark:bg-purple-900 rounded font-medium text-purple-800 dark:text-purple-200">
             {quote.tokenOut.symbol}
           </span>
         </div>
 
         <div className="pt-2 space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-600 dark:text-gray-400">Pool Fee Tier</span>
-            <span className="font-medium text-gray-900 dark:text-white">
-              {(quote.feeTier / 10000).toFixed(2)}%
-            </span>
-          </div>
+          {hops.length > 1 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Route</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {hops.length} hops
+              </span>
+            </div>
+          )}
+          {splitLegs.length > 0 ? (
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Split Across Pools</span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {splitLegs.length} pools
+                </span>
+              </div>
+              {splitLegs.map(leg => (
+                <div key={leg.fee} className="flex justify-between text-xs">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {leg.percent}% via {(leg.fee / 10000).toFixed(2)}% pool
+                  </span>
+                  <span className="font-mono text-gray-900 dark:text-white">
+                    ~{Number(formatUnits(BigInt(leg.expectedOutput), quote.tokenOut.poolDecimals)).toFixed(6)} {quote.tokenOut.symbol}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">{isSolidlyRoute ? 'Pool Type' : 'Pool Fee Tier'}</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {feeTiers}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-gray-600 dark:text-gray-400">Liquidity Source</span>
-            <span className="font-medium text-gray-900 dark:text-white">Uniswap V3 Pool</span>
+            <span className="font-medium text-gray-900 dark:text-white">{venueName} Pool</span>
           </div>
         </div>
       </div>
@@ -131,12 +280,21 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
             <span className="font-medium text-gray-900 dark:text-white">{slippage}%</span>
           </div>
 
-          <div className="flex justify-between">
-            <span className="text-gray-600 dark:text-gray-400">Minimum Received</span>
-            <span className="font-medium text-orange-600 dark:text-orange-400">
-              {minOutput.toFixed(6)} {quote.tokenOut.symbol}
-            </span>
-          </div>
+          {maxInput !== null ? (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Max You Pay</span>
+              <span className="font-medium text-orange-600 dark:text-orange-400">
+                {maxInput.toFixed(6)} {quote.tokenIn.symbol}
+              </span>
+            </div>
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Minimum Received</span>
+              <span className="font-medium text-orange-600 dark:text-orange-400">
+                {minOutput.toFixed(6)} {quote.tokenOut.symbol}
+              </span>
+            </div>
+          )}
 
           <div className="flex justify-between">
             <span className="text-gray-600 dark:text-gray-400">Estimated Gas</span>
@@ -150,6 +308,37 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
             </div>
           </div>
 
+          {netOutput !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Net Received After Gas</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                ~{netOutput.toFixed(6)} {quote.tokenOut.symbol}
+              </span>
+            </div>
+          )}
+
+          {netInput !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Net Cost Including Gas</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                ~{netInput.toFixed(6)} {quote.tokenIn.symbol}
+              </span>
+            </div>
+          )}
+
+          {secondsLeft !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Quote Expires</span>
+              <span className={`font-mono font-medium ${
+                isExpired ? 'text-red-600' : secondsLeft < 60 ? 'text-yellow-600' : 'text-gray-900 dark:text-white'
+              }`}>
+                {isExpired
+                  ? 'Expired'
+                  : `${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, '0')}`}
+              </span>
+            </div>
+          )}
+
           {priceImpact > 0.1 && (
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Price Impact</span>
@@ -178,6 +367,50 @@ export function TransactionPreview({ quote, amountIn, slippage = 0.5 }: Transact
         </div>
       </div>
 
+      {/* Live drift - the quote is re-priced every block; past the slippage bound the swap would revert */}
+      {drift && !drift.exceedsSlippage && drift.changePercent !== 0 && (
+        <div className="flex justify-between text-xs px-1">
+          <span className="text-gray-600 dark:text-gray-400">Live at block #{drift.blockNumber}</span>
+          <span className={drift.favorable ? 'text-green-600' : 'text-yellow-600'}>
+            {formatQuoteDrift(drift)}
+          </span>
+        </div>
+      )}
+      {drift?.exceedsSlippage && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 space-y-2">
+          <p className="text-sm font-semibold text-red-900 dark:text-red-100">Price Moved Beyond Slippage</p>
+          <p className="text-xs text-red-700 dark:text-red-300">
+            Latest quote: {formatQuoteDrift(drift)}. That is outside your {slippage}% tolerance, so execution is locked until you refresh the quote.
+          </p>
+          {onRequote && (
+            <button
+              onClick={onRequote}
+              className="w-full bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 transition-colors text-sm"
+            >
+              Refresh Quote
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Expired quote - the swap deadline has passed, so it must be re-quoted */}
+      {isExpired && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 space-y-2">
+          <p className="text-sm font-semibold text-red-900 dark:text-red-100">Quote Expired</p>
+          <p className="text-xs text-red-700 dark:text-red-300">
+            Prices may have moved since this quote. Refresh it before simulating or executing.
+          </p>
+          {onRequote && (
+            <button
+              onClick={onRequote}
+              className="w-full bg-red-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-red-700 transition-colors text-sm"
+            >
+              Refresh Quote
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Warning for high slippage or price impact */}
       {(priceImpact > 5 || slippage > 1) && (
         <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
@@ -15,7 +15,8 @@ interface Quote {
   expectedOutput: string;
   minOutput: string;
   estimatedGas: string;
-  feeTier: number;
+  feeTier: number | null;
+  venueName?: string;
   price: number;
   tokenIn: QuoteToken;
   tokenOut: QuoteToken;
@@ -61,6 +62,25 @@ export function TransactionReceipt({
         const response = await fetch(`https://base.blockscout.com/api/v2/transactions/${txHash}`);
         const data = await response.json();
 
+        // Native ETH arrives via the router's unwrapWETH9, which shows up as an
+        // internal transaction to the sender rather than a token transfer
+        if (quote.tokenOut.symbol === 'ETH') {
+          const internalResponse = await fetch(
+            `https://base.blockscout.com/api/v2/transactions/${txHash}/internal-transactions`
+          );
+          const internalData = await internalResponse.json();
+          const sender = data.from?.hash?.toLowerCase();
+
+          const receivedWei = (internalData.items || [])
+            .filter((item: any) => item.to?.hash?.toLowerCase() === sender && item.success !== false)
+            .reduce((sum: bigint, item: any) => sum + BigInt(item.value || '0'), 0n);
+
+          if (receivedWei > 0n) {
+            setActualReceived(parseFloat(formatUnits(receivedWei, 18)));
+          }
+          return;
+        }
+
         // Parse token transfers from transaction logs
         if (data.token_transfers && data.token_transfers.length > 0) {
           const receiveTransfer = data.token_transfers.find((transfer: any) =>
@@ -250,12 +270,14 @@ export function TransactionReceipt({
         </h4>
 
         <div className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-600 dark:text-gray-400">Pool Fee</span>
-            <span className="font-mono text-gray-900 dark:text-white">
-              {(quote.feeTier / 10000).toFixed(2)}%
-            </span>
-          </div>
+          {quote.feeTier !== null && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Pool Fee</span>
+              <span className="font-mono text-gray-900 dark:text-white">
+                {(quote.feeTier / 10000).toFixed(2)}%
+              </span>
+            </div>
+          )}
 
           <div className="flex justify-between">
             <span className="text-gray-600 dark:text-gray-400">Confirmation Time</span>
@@ -325,7 +347,7 @@ export function TransactionReceipt({
       {/* Powered By Badge */}
       <div className="text-center">
         <p className="text-xs text-gray-500 dark:text-gray-400">
-          Powered by Uniswap V3 • Secured by Tenderly • Built on Base
+          Powered by {quote.venueName ?? 'Uniswap V3'} • Secured by Tenderly • Built on Base
         </p>
       </div>
     </div>
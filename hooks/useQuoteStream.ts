@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+export interface QuoteStreamRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn?: number;
+  amountOut?: number;
+  slippage: number;
+  recipient?: string;
+  // Token import grants, sent comma-separated
+  importedTokens?: string[];
+}
+
+interface UseQuoteStreamReturn<T> {
+  latest: T | null;
+  blockNumber: string | null;
+  connected: boolean;
+  error: string | null;
+}
+
+/**
+ * Subscribe to /api/quote-stream: a fresh quote for the request on every new Base block
+ * Pass null to stay disconnected; a changed request reconnects with the new parameters
+ */
+export function useQuoteStream<T>(request: QuoteStreamRequest | null): UseQuoteStreamReturn<T> {
+  const [latest, setLatest] = useState<T | null>(null);
+  const [blockNumber, setBlockNumber] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = request
+    ? new URLSearchParams(
+        Object.entries(request)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, String(value)])
+      ).toString()
+    : null;
+
+  useEffect(() => {
+    setLatest(null);
+    setBlockNumber(null);
+    setError(null);
+    if (!query || typeof window === 'undefined' || !('EventSource' in window)) return;
+
+    const source = new EventSource(`/api/quote-stream?${query}`);
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false); // EventSource retries on its own
+
+    source.addEventListener('quote', event => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setLatest({ ...data.quote, price: Number(data.quote.price) });
+      setBlockNumber(data.blockNumber);
+      setError(null);
+    });
+
+    source.addEventListener('unavailable', event => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setBlockNumber(data.blockNumber);
+      setError(data.error);
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [query]);
+
+  return { latest, blockNumber, connected, error };
+}
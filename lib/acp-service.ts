@@ -1,6 +1,7 @@
 // SwapWright ACP Service Definition
 
 import { ACPServiceMetadata } from './acp-types';
+import { SUPPORTED_TOKEN_SYMBOLS } from './tokens';
 
 /**
  * SwapWright service metadata for agent discovery
@@ -27,12 +28,12 @@ export const SWAPWRIGHT_SERVICE: ACPServiceMetadata = {
         properties: {
           tokenIn: {
             type: 'string',
-            enum: ['ETH', 'WETH', 'USDC', 'USDBC'],
+            enum: SUPPORTED_TOKEN_SYMBOLS,
             description: 'Input token symbol',
           },
           tokenOut: {
             type: 'string',
-            enum: ['ETH', 'WETH', 'USDC', 'USDBC'],
+            enum: SUPPORTED_TOKEN_SYMBOLS,
             description: 'Output token symbol',
           },
           amount: {
@@ -55,11 +56,17 @@ export const SWAPWRIGHT_SERVICE: ACPServiceMetadata = {
           minOutput: { type: 'string' },
           estimatedGas: { type: 'string' },
           route: { type: 'string' },
-          priceImpact: { type: 'number' },
+          priceImpact: { type: 'number', description: 'Percent by which the execution price is below the pool mid price' },
+          midPrice: { type: 'number', description: 'Pool mid price before the swap (tokenOut per tokenIn)' },
+          executionPrice: { type: 'number', description: 'Quoted execution price (tokenOut per tokenIn)' },
+          venue: { type: 'string', description: 'DEX the route trades on (uniswap-v3 or aerodrome)' },
+          quoteId: { type: 'string', description: 'Identifier of the signed quote ticket' },
+          quoteTicket: { type: 'string', description: 'Signed quote ticket; required to build the swap and verifiable via /api/acp/verify-quote' },
+          deadline: { type: 'number', description: 'Unix timestamp (seconds) when the quote expires; set via metadata.timeout' },
         },
       },
       constraints: {
-        supportedTokens: ['ETH', 'WETH', 'USDC', 'USDBC'],
+        supportedTokens: SUPPORTED_TOKEN_SYMBOLS,
         minSlippage: 0.1,
         maxSlippage: 50,
       },
@@ -112,5 +119,11 @@ export const SWAPWRIGHT_SERVICE: ACPServiceMetadata = {
       description: 'Execute a swap request from another agent',
       requiresAuth: false,
     },
+    {
+      path: '/api/acp/verify-quote',
+      method: 'POST',
+      description: 'Verify a quote ticket and return the terms it commits to',
+      requiresAuth: false,
+    },
   ],
 };
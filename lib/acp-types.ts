@@ -1,5 +1,7 @@
 // ACP (Agent Communication Protocol) Types for Virtuals Protocol Integration
 
+import type { QuoteCacheStats } from './quote-cache';
+
 /**
  * Service metadata for agent discovery
  */
@@ -84,7 +86,13 @@ export interface ACPSwapResponse {
       minOutput: string;
       estimatedGas: string;
       route: string;
-      priceImpact?: number;
+      priceImpact?: number; // Percent below the pool mid price
+      midPrice?: number; // Pool mid price before the swap (tokenOut per tokenIn)
+      executionPrice?: number; // Quoted price actually received (tokenOut per tokenIn)
+      venue?: string; // DEX the route trades on (e.g. uniswap-v3, aerodrome)
+      quoteId?: string; // Identifier of the signed quote ticket
+      quoteTicket?: string; // Signed ticket binding route, amounts, slippage, expiry and recipient
+      deadline?: number; // Unix timestamp (seconds) after which the swap is rejected
     };
     transaction?: {
       hash: string;
@@ -99,6 +107,30 @@ export interface ACPSwapResponse {
   };
 }
 
+/**
+ * Result of verifying a quote ticket (/api/acp/verify-quote)
+ */
+export interface ACPQuoteVerification {
+  valid: boolean;
+  expired?: boolean;
+  quote?: {
+    quoteId: string;
+    venue: string;
+    tradeType: 'exactInput' | 'exactOutput';
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string; // Raw units
+    amountOut: string; // Raw units
+    minOutput: string; // Raw units; the swap may not accept less
+    maxInput: string; // Raw units; the swap may not spend more
+    slippage: number; // Percent
+    recipient: string | null;
+    issuedAt: number; // Unix seconds
+    expiresAt: number; // Unix seconds
+  };
+  error?: string;
+}
+
 /**
  * Service status response
  */
@@ -109,6 +141,8 @@ export interface ACPServiceStatus {
   uptime: number;
   network: string;
   supportedTokens: string[];
+  // Shared quote cache metrics (hits, misses, evictions, per-block invalidations)
+  quoteCache: QuoteCacheStats;
   limits: {
     maxSwapAmount: string;
     minSwapAmount: string;
@@ -0,0 +1,118 @@
+// Aerodrome (Solidly-style) Contract Addresses on Base Mainnet
+export const AERODROME_CONTRACTS = {
+  Router: "0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43",
+  PoolFactory: "0x420DD381b31aEf6683db6B902084cB0FFECe40Da",
+} as const;
+
+// Route step as taken by the router: each hop names its pool by token pair and curve type
+const ROUTE_COMPONENTS = [
+  { internalType: "address", name: "from", type: "address" },
+  { internalType: "address", name: "to", type: "address" },
+  { internalType: "bool", name: "stable", type: "bool" },
+  { internalType: "address", name: "factory", type: "address" },
+] as const;
+
+// Aerodrome Router ABI - quoting and exact input swaps (tokens and native ETH, fee-on-transfer sells)
+export const AERODROME_ROUTER_ABI = [
+  {
+    inputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { components: ROUTE_COMPONENTS, internalType: "struct IRouter.Route[]", name: "routes", type: "tuple[]" },
+    ],
+    name: "getAmountsOut",
+    outputs: [{ internalType: "uint256[]", name: "amounts", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { internalType: "uint256", name: "amountOutMin", type: "uint256" },
+      { components: ROUTE_COMPONENTS, internalType: "struct IRouter.Route[]", name: "routes", type: "tuple[]" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+    ],
+    name: "swapExactTokensForTokens",
+    outputs: [{ internalType: "uint256[]", name: "amounts", type: "uint256[]" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "amountOutMin", type: "uint256" },
+      { components: ROUTE_COMPONENTS, internalType: "struct IRouter.Route[]", name: "routes", type: "tuple[]" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+    ],
+    name: "swapExactETHForTokens",
+    outputs: [{ internalType: "uint256[]", name: "amounts", type: "uint256[]" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { internalType: "uint256", name: "amountOutMin", type: "uint256" },
+      { components: ROUTE_COMPONENTS, internalType: "struct IRouter.Route[]", name: "routes", type: "tuple[]" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+    ],
+    name: "swapExactTokensForETH",
+    outputs: [{ internalType: "uint256[]", name: "amounts", type: "uint256[]" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { internalType: "uint256", name: "amountOutMin", type: "uint256" },
+      { components: ROUTE_COMPONENTS, internalType: "struct IRouter.Route[]", name: "routes", type: "tuple[]" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+    ],
+    name: "swapExactTokensForETHSupportingFeeOnTransferTokens",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+// Aerodrome PoolFactory ABI - pool lookup by pair and curve type
+export const AERODROME_FACTORY_ABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "tokenA", type: "address" },
+      { internalType: "address", name: "tokenB", type: "address" },
+      { internalType: "bool", name: "stable", type: "bool" },
+    ],
+    name: "getPool",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Aerodrome Pool ABI - reserves
+export const AERODROME_POOL_ABI = [
+  {
+    inputs: [],
+    name: "getReserves",
+    outputs: [
+      { internalType: "uint256", name: "_reserve0", type: "uint256" },
+      { internalType: "uint256", name: "_reserve1", type: "uint256" },
+      { internalType: "uint256", name: "_blockTimestampLast", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token0",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Gas used per hop by an Aerodrome router swap (the router has no gas-reporting quoter)
+export const AERODROME_GAS_PER_HOP = 130_000n;
@@ -2,6 +2,11 @@ import Anthropic from '@anthropic-ai/sdk';
 import { getMarketContext, generateMarketInsights, assessSwapRisk, generateSuggestedActions } from './market-context';
 import { FEW_SHOT_EXAMPLES } from './training-data';
 import { assessSwapRisk as assessRiskClassifier, getRiskSummary } from './risk-classifier';
+import { formatQuoteDrift, type QuoteDrift } from './quote-drift';
+import { SUPPORTED_TOKEN_SYMBOLS, type TokenInfo } from './tokens';
+import { getTokenAmountFormatter } from './token-metadata';
+import { scanSwapTokens } from './token-safety';
+import { getBaseClient } from './rpc-provider';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -18,6 +23,7 @@ export interface TransactionPreviewData {
   liquiditySource: string;
   slippageTolerance: string;
   minReceived: string;
+  maxPay?: string;
   estimatedGas: string;
   gasUSD?: string;
   priceImpact: string;
@@ -36,13 +42,18 @@ export interface SwapContext {
   tokenIn?: string;
   tokenOut?: string;
   amount?: string;
+  amountOut?: string;
   quote?: {
+    tradeType?: 'exactInput' | 'exactOutput';
+    maxInput?: string;
     expectedOutput: string;
     minOutput: string;
     estimatedGas: string;
-    feeTier: number;
+    feeTier: number | null;
+    venueName?: string;
     route: string;
     priceImpact?: number;
+    poolLiquidityUSD?: number; // TVL of the route's shallowest pool (summed across split pools)
   };
   simulation?: {
     success: boolean;
@@ -54,7 +65,11 @@ export interface SwapContext {
     status: 'pending' | 'success' | 'failed';
   };
   slippage?: number;
+  // Live re-quote vs the quote above, refreshed every block while a quote is open
+  quoteDrift?: QuoteDrift;
   isWalletConnected?: boolean;
+  // Tokens the connected wallet imported by address (unverified, swappable for that wallet only)
+  importedTokens?: TokenInfo[];
 }
 
 export interface CopilotResponse {
@@ -80,7 +95,7 @@ const ENHANCED_SYSTEM_PROMPT = `You are SwapWright AI, a DeFi swap assistant tha
 6. Provide market context and risk warnings
 7. Handle follow-up clarifications (e.g., "actually make it 2 ETH", "change to 1% slippage")
 
-**Available Tokens:** ETH, WETH, USDC, USDBC
+**Available Tokens:** ${SUPPORTED_TOKEN_SYMBOLS.join(', ')}
 
 **Communication Style:**
 - Direct and concise (2-3 sentences)
@@ -97,6 +112,8 @@ const ENHANCED_SYSTEM_PROMPT = `You are SwapWright AI, a DeFi swap assistant tha
    - If [Wallet Status] shows "NOT CONNECTED": Respond with "Please connect your wallet before I can get a quote for you. Click the Connect Wallet button in the top right." and DO NOT include any action.
    - If [Wallet Status] shows "CONNECTED": "I'll get a quote for swapping [amount] [tokenIn] to [tokenOut]..."
    Action (only if connected): { "type": "fetch_quote", "params": { "tokenIn": "ETH", "tokenOut": "USDC", "amount": "1" } }
+   If the user asks to receive an exact amount ("get me exactly 1000 USDC"), use "amountOut" instead of "amount":
+   Action: { "type": "fetch_quote", "params": { "tokenIn": "ETH", "tokenOut": "USDC", "amountOut": "1000" } }
 
 2. **Parameter Changes** ("make it 0.5 ETH", "use 1% slippage"):
    Update the amount or slippage and fetch new quote
@@ -168,7 +185,15 @@ export async function getEnhancedCopilotResponse(
     // CRITICAL: Always include wallet connection status FIRST
     contextPrompt += `\n[Wallet Status]: ${swapContext.isWalletConnected ? 'CONNECTED' : 'NOT CONNECTED'}`;
 
-    if (swapContext.tokenIn && swapContext.tokenOut && swapContext.amount) {
+    const importedTokens = swapContext.importedTokens ?? [];
+    if (importedTokens.length > 0) {
+      contextPrompt += `\n[Imported Tokens]: ${importedTokens.map(token => `${token.symbol} (${token.address})`).join(', ')}`;
+      contextPrompt += ` - imported by this wallet, not on any reviewed list; swappable, but remind the user they are unverified`;
+    }
+
+    if (swapContext.tokenIn && swapContext.tokenOut && swapContext.amountOut) {
+      contextPrompt += `\n[Current Swap]: ${swapContext.tokenIn} → exactly ${swapContext.amountOut} ${swapContext.tokenOut}`;
+    } else if (swapContext.tokenIn && swapContext.tokenOut && swapContext.amount) {
       contextPrompt += `\n[Current Swap]: ${swapContext.amount} ${swapContext.tokenIn} → ${swapContext.tokenOut}`;
     }
 
@@ -198,9 +223,15 @@ export async function getEnhancedCopilotResponse(
           }
 
           // Advanced risk assessment with comprehensive scoring
+          // Non-core tokens are test-traded first; their scans count even without a market price
+          const tokenSafety = await scanSwapTokens(getBaseClient(), [swapContext.tokenIn, swapContext.tokenOut], importedTokens)
+            .catch(error => {
+              console.error('Token safety scan failed:', error);
+              return [];
+            });
           const tokenPrice = marketContext.prices[swapContext.tokenIn];
-          if (tokenPrice) {
-            const amountUSD = parseFloat(swapContext.amount) * tokenPrice.price;
+          if (tokenPrice || tokenSafety.length > 0) {
+            const amountUSD = tokenPrice ? parseFloat(swapContext.amount) * tokenPrice.price : 0;
             const quote = swapContext.quote;
 
             // Calculate gas cost in USD (gas units * typical Base gas price * ETH price)
@@ -208,7 +239,7 @@ export async function getEnhancedCopilotResponse(
             const gasUnits = parseFloat(quote.estimatedGas);
             const baseGasPriceGwei = 0.001; // Typical Base gas price in gwei
             const gasCostETH = (gasUnits * baseGasPriceGwei) / 1e9;
-            const ethPrice = marketContext.prices['ETH']?.price || tokenPrice.price;
+            const ethPrice = marketContext.prices['ETH']?.price || tokenPrice?.price || 0;
             const gasEstimateUSD = gasCostETH * ethPrice;
 
             advancedRiskAssessment = assessRiskClassifier({
@@ -217,9 +248,10 @@ export async function getEnhancedCopilotResponse(
               amountUSD,
               slippage: swapContext.slippage || 0.5,
               priceImpact: quote.priceImpact,
-              marketVolatility: Math.abs(tokenPrice.change24h || 0),
-              poolLiquidityUSD: undefined, // Not available from current quote
+              marketVolatility: Math.abs(tokenPrice?.change24h || 0),
+              poolLiquidityUSD: quote.poolLiquidityUSD,
               gasEstimateUSD,
+              tokenSafety,
             });
 
             // Add advanced risk summary if significant risk detected
@@ -237,29 +269,29 @@ export async function getEnhancedCopilotResponse(
     if (swapContext.quote) {
       const q = swapContext.quote;
 
-      // Format token amounts with proper decimals for human readability
-      // expectedOutput and minOutput are raw token amounts (e.g., "39903300" USDC with 6 decimals = "39903.30" USDC)
-      // We need to divide by 10^decimals to get the human-readable amount
-      const formatTokenAmount = (rawAmount: string, tokenSymbol: string): string => {
-        // USDC has 6 decimals, ETH/WETH has 18 decimals
-        const decimals = tokenSymbol === 'USDC' ? 6 : 18;
-        const amount = Number(rawAmount) / Math.pow(10, decimals);
-
-        // Format with appropriate precision
-        if (tokenSymbol === 'USDC') {
-          return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-        } else {
-          return amount.toLocaleString('en-US', { minimumFractionDigits: 4, maximumFractionDigits: 6 });
-        }
-      };
+      // expectedOutput and minOutput are raw token amounts; decimals come from the token contracts
+      const formatTokenAmount = await getTokenAmountFormatter(getBaseClient(), [
+        swapContext.tokenIn || 'ETH',
+        swapContext.tokenOut || 'USDC',
+      ], importedTokens);
 
       contextPrompt += `\n[Quote Data]:`;
       contextPrompt += `\n- Expected Output: ${formatTokenAmount(q.expectedOutput, swapContext.tokenOut || 'USDC')} ${swapContext.tokenOut}`;
-      contextPrompt += `\n- Min Output (with slippage): ${formatTokenAmount(q.minOutput, swapContext.tokenOut || 'USDC')} ${swapContext.tokenOut}`;
+      if (q.tradeType === 'exactOutput' && q.maxInput) {
+        contextPrompt += `\n- Exact Output: the user receives exactly this amount`;
+        contextPrompt += `\n- Max Input (with slippage): ${formatTokenAmount(q.maxInput, swapContext.tokenIn || 'ETH')} ${swapContext.tokenIn}`;
+      } else {
+        contextPrompt += `\n- Min Output (with slippage): ${formatTokenAmount(q.minOutput, swapContext.tokenOut || 'USDC')} ${swapContext.tokenOut}`;
+      }
       contextPrompt += `\n- Gas Estimate: ${q.estimatedGas} gas`;
-      contextPrompt += `\n- Fee Tier: ${q.feeTier / 10000}%`;
+      if (q.venueName) contextPrompt += `\n- Venue: ${q.venueName}`;
+      if (q.feeTier !== null) contextPrompt += `\n- Fee Tier: ${q.feeTier / 10000}%`;
       contextPrompt += `\n- Route: ${q.route}`;
       if (q.priceImpact) contextPrompt += `\n- Price Impact: ${q.priceImpact}%`;
+      if (q.poolLiquidityUSD) contextPrompt += `\n- Pool Liquidity: $${Math.round(q.poolLiquidityUSD).toLocaleString()}`;
+      if (swapContext.quoteDrift?.exceedsSlippage) {
+        contextPrompt += `\n- Live Quote: ${formatQuoteDrift(swapContext.quoteDrift)}, beyond slippage; execution is locked until the user re-quotes`;
+      }
     }
 
     if (swapContext.simulation) {
@@ -337,16 +369,8 @@ export async function getEnhancedCopilotResponse(
       const tokenOut = swapContext.tokenOut!; // Already checked in shouldShowTransactionCard
       const amount = swapContext.amount!; // Already checked in shouldShowTransactionCard
 
-      // Format token amounts with proper decimals
-      const formatTokenAmount = (rawAmount: string, tokenSymbol: string): string => {
-        const decimals = tokenSymbol === 'USDC' ? 6 : 18;
-        const amount = Number(rawAmount) / Math.pow(10, decimals);
-        if (tokenSymbol === 'USDC') {
-          return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-        } else {
-          return amount.toLocaleString('en-US', { minimumFractionDigits: 4, maximumFractionDigits: 6 });
-        }
-      };
+      // Format token amounts with the decimals their contracts report
+      const formatTokenAmount = await getTokenAmountFormatter(getBaseClient(), [tokenIn, tokenOut], importedTokens);
 
       const expectedOutput = formatTokenAmount(quote.expectedOutput, tokenOut);
       const minOutput = formatTokenAmount(quote.minOutput, tokenOut);
@@ -359,10 +383,13 @@ export async function getEnhancedCopilotResponse(
         youReceiveToken: tokenOut,
         exchangeRate,
         route: quote.route,
-        poolFeeTier: `${quote.feeTier / 10000}%`,
-        liquiditySource: 'Uniswap V3 Pool',
+        poolFeeTier: quote.feeTier !== null ? `${quote.feeTier / 10000}%` : 'Variable',
+        liquiditySource: `${quote.venueName ?? 'Uniswap V3'} Pool`,
         slippageTolerance: `${swapContext.slippage || 0.5}%`,
         minReceived: minOutput,
+        maxPay: quote.tradeType === 'exactOutput' && quote.maxInput
+          ? formatTokenAmount(quote.maxInput, tokenIn)
+          : undefined,
         estimatedGas: `${quote.estimatedGas} gas`,
         gasUSD: marketContext ? `${((Number(quote.estimatedGas) * 0.001 / 1e9) * (marketContext.prices['ETH']?.price || 3900)).toFixed(2)}` : undefined,
         priceImpact: `${quote.priceImpact?.toFixed(2) || '0.01'}%`,
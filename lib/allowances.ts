@@ -0,0 +1,255 @@
+// Allowance Scanner
+// Reads a wallet's ERC-20 and Permit2 allowances for every registry token (and the wallet's imported tokens)
+// against every spender the app knows,
+// flags unlimited and stale ones, and builds the transactions that revoke or reduce them
+
+import { encodeFunctionData, maxUint160, maxUint256, type PublicClient } from "viem";
+import { ERC20_ABI, PERMIT2_ABI, UNISWAP_CONTRACTS } from "./uniswap";
+import { TOKEN_REGISTRY, getTokenByAddress, type TokenInfo } from "./tokens";
+import { VENUE_ADAPTERS } from "./venues";
+
+// erc20: token.approve allowance; permit2: allowance held inside Permit2 (amount plus expiration)
+export type AllowanceKind = "erc20" | "permit2";
+
+export interface KnownSpender {
+  address: `0x${string}`;
+  name: string;
+  kinds: AllowanceKind[];
+}
+
+// Venue routers, Permit2 itself and the Universal Router that spends Permit2 allowances
+export const KNOWN_SPENDERS: KnownSpender[] = [
+  ...VENUE_ADAPTERS.map((adapter): KnownSpender => ({
+    address: adapter.spender,
+    name: `${adapter.name} Router`,
+    kinds: ["erc20"],
+  })),
+  { address: UNISWAP_CONTRACTS.Permit2, name: "Permit2", kinds: ["erc20"] },
+  { address: UNISWAP_CONTRACTS.UniversalRouter, name: "Uniswap Universal Router", kinds: ["erc20", "permit2"] },
+];
+
+export interface AllowanceEntry {
+  kind: AllowanceKind;
+  token: TokenInfo;
+  spender: `0x${string}`;
+  spenderName: string;
+  amount: string;
+  // Permit2 only: unix seconds after which the allowance can no longer be spent
+  expiration: number | null;
+  balance: string;
+  // Token the wallet imported itself (not in the registry)
+  imported: boolean;
+  unlimited: boolean;
+  // The wallet holds none of the token: the approval protects nothing today and only exposes future deposits
+  stale: boolean;
+}
+
+export interface AllowanceUpdate {
+  kind: AllowanceKind;
+  token: `0x${string}`;
+  spender: `0x${string}`;
+  // New allowance in raw units; 0 revokes
+  amount: bigint;
+}
+
+export interface AllowanceTransaction {
+  kind: AllowanceKind;
+  token: `0x${string}`;
+  spender: `0x${string}`;
+  amount: string;
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value: string;
+}
+
+type AllowanceClient = Pick<PublicClient, "multicall">;
+
+// Infinite approvals are the type's max; some tokens count them down as they are spent, so anything
+// above half the range is treated as unlimited
+const UNLIMITED_ERC20 = maxUint256 / 2n;
+const UNLIMITED_PERMIT2 = maxUint160 / 2n;
+
+function spendersFor(kind: AllowanceKind): KnownSpender[] {
+  return KNOWN_SPENDERS.filter(spender => spender.kinds.includes(kind));
+}
+
+function findSpender(kind: AllowanceKind, address: string): KnownSpender | undefined {
+  return spendersFor(kind).find(spender => spender.address.toLowerCase() === address.toLowerCase());
+}
+
+function toTokenInfo({ symbol, address, decimals, name }: TokenInfo): TokenInfo {
+  return { symbol, address, decimals, name };
+}
+
+/**
+ * Registry ERC-20s plus the wallet's imported tokens (from verified grants), without duplicates
+ */
+function allowanceTokens(importedTokens: TokenInfo[]): TokenInfo[] {
+  const tokens: TokenInfo[] = TOKEN_REGISTRY.filter(token => !token.risk.native);
+  for (const token of importedTokens) {
+    if (!tokens.some(existing => existing.address.toLowerCase() === token.address.toLowerCase())) tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Every live allowance the owner has granted on registry ERC-20s and the wallet's imported tokens
+ * One multicall: per token its balance, an allowance per ERC-20 spender and a Permit2 allowance per Permit2 spender
+ */
+export async function scanAllowances(
+  client: AllowanceClient,
+  owner: `0x${string}`,
+  importedTokens: TokenInfo[] = []
+): Promise<AllowanceEntry[]> {
+  const tokens = allowanceTokens(importedTokens);
+  const erc20Spenders = spendersFor("erc20");
+  const permit2Spenders = spendersFor("permit2");
+  const callsPerToken = 1 + erc20Spenders.length + permit2Spenders.length;
+
+  const results = await client.multicall({
+    contracts: tokens.flatMap(token => [
+      { address: token.address, abi: ERC20_ABI, functionName: "balanceOf", args: [owner] } as const,
+      ...erc20Spenders.map(
+        spender =>
+          ({ address: token.address, abi: ERC20_ABI, functionName: "allowance", args: [owner, spender.address] }) as const
+      ),
+      ...permit2Spenders.map(
+        spender =>
+          ({
+            address: UNISWAP_CONTRACTS.Permit2,
+            abi: PERMIT2_ABI,
+            functionName: "allowance",
+            args: [owner, token.address, spender.address],
+          }) as const
+      ),
+    ]),
+    allowFailure: true,
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const entries: AllowanceEntry[] = [];
+
+  tokens.forEach((token, i) => {
+    const [balanceResult, ...allowanceResults] = results.slice(i * callsPerToken, (i + 1) * callsPerToken);
+    // Addresses that do not answer balanceOf are not live ERC-20s on this chain
+    if (balanceResult.status !== "success") return;
+    const balance = balanceResult.result as bigint;
+    const stale = balance === 0n;
+
+    erc20Spenders.forEach((spender, j) => {
+      const result = allowanceResults[j];
+      if (result.status !== "success") return;
+      const amount = result.result as bigint;
+      if (amount === 0n) return;
+      entries.push({
+        kind: "erc20",
+        token: toTokenInfo(token),
+        spender: spender.address,
+        spenderName: spender.name,
+        amount: amount.toString(),
+        expiration: null,
+        balance: balance.toString(),
+        imported: !getTokenByAddress(token.address),
+        unlimited: amount >= UNLIMITED_ERC20,
+        stale,
+      });
+    });
+
+    permit2Spenders.forEach((spender, j) => {
+      const result = allowanceResults[erc20Spenders.length + j];
+      if (result.status !== "success") return;
+      const [amount, expiration] = result.result as readonly [bigint, number, number];
+      // Expired Permit2 allowances cannot be spent, so there is nothing to revoke
+      if (amount === 0n || expiration <= now) return;
+      entries.push({
+        kind: "permit2",
+        token: toTokenInfo(token),
+        spender: spender.address,
+        spenderName: `${spender.name} (via Permit2)`,
+        amount: amount.toString(),
+        expiration,
+        balance: balance.toString(),
+        imported: !getTokenByAddress(token.address),
+        unlimited: amount >= UNLIMITED_PERMIT2,
+        stale,
+      });
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Transactions that lower allowances, one per update
+ * Throws if a token is neither in the registry nor one of the wallet's imported tokens, a spender is not
+ * known for the kind, or an update would not lower the owner's current allowance (this endpoint never grants anything)
+ */
+export async function buildAllowanceUpdates(
+  client: AllowanceClient,
+  owner: `0x${string}`,
+  updates: AllowanceUpdate[],
+  importedTokens: TokenInfo[] = []
+): Promise<AllowanceTransaction[]> {
+  const tokens = allowanceTokens(importedTokens);
+  for (const update of updates) {
+    if (!tokens.some(token => token.address.toLowerCase() === update.token.toLowerCase())) {
+      throw new Error(`Token not in registry or imported by this wallet: ${update.token}`);
+    }
+    if (!findSpender(update.kind, update.spender)) {
+      throw new Error(`Unknown ${update.kind} spender: ${update.spender}`);
+    }
+  }
+
+  const current = await client.multicall({
+    contracts: updates.map(update =>
+      update.kind === "erc20"
+        ? ({
+            address: update.token,
+            abi: ERC20_ABI,
+            functionName: "allowance",
+            args: [owner, update.spender],
+          } as const)
+        : ({
+            address: UNISWAP_CONTRACTS.Permit2,
+            abi: PERMIT2_ABI,
+            functionName: "allowance",
+            args: [owner, update.token, update.spender],
+          } as const)
+    ),
+    allowFailure: false,
+  });
+
+  return updates.map((update, i) => {
+    const [currentAmount, currentExpiration] =
+      update.kind === "erc20"
+        ? [current[i] as bigint, 0]
+        : (current[i] as readonly [bigint, number, number]);
+
+    if (update.amount >= currentAmount) {
+      throw new Error(`Allowance updates can only lower an allowance (${update.token} → ${update.spender})`);
+    }
+
+    if (update.kind === "erc20") {
+      return {
+        ...update,
+        amount: update.amount.toString(),
+        to: update.token,
+        data: encodeFunctionData({ abi: ERC20_ABI, functionName: "approve", args: [update.spender, update.amount] }),
+        value: "0",
+      };
+    }
+
+    // Reducing keeps the current expiration; revoking zeroes both (Permit2 reads expiration 0 as "now")
+    return {
+      ...update,
+      amount: update.amount.toString(),
+      to: UNISWAP_CONTRACTS.Permit2,
+      data: encodeFunctionData({
+        abi: PERMIT2_ABI,
+        functionName: "approve",
+        args: [update.token, update.spender, update.amount, update.amount === 0n ? 0 : currentExpiration],
+      }),
+      value: "0",
+    };
+  });
+}
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { issueTokenImportGrant, verifyTokenImportGrants } from "./custom-tokens";
+import { TOKENS } from "./tokens";
+import { TOKEN_IMPORT_GRANT_TTL_SECONDS } from "./token-profile";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const MOON = {
+  symbol: "MOON",
+  address: "0x52908400098527886E0F7030069857D2E4169EE7" as const,
+  decimals: 18,
+  name: "Moon",
+};
+
+describe("token import grants", () => {
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    vi.stubEnv("QUOTE_TICKET_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the tokens granted to the wallet", () => {
+    expect(verifyTokenImportGrants([issueTokenImportGrant(MOON, WALLET, now)], WALLET)).toEqual([MOON]);
+    expect(verifyTokenImportGrants(undefined, WALLET)).toEqual([]);
+  });
+
+  it("rejects grants issued for another wallet", () => {
+    const grant = issueTokenImportGrant(MOON, "0x2222222222222222222222222222222222222222", now);
+    expect(() => verifyTokenImportGrants([grant], WALLET)).toThrow("different wallet");
+  });
+
+  it("rejects expired grants unless explicitly allowed", () => {
+    const grant = issueTokenImportGrant(MOON, WALLET, now - TOKEN_IMPORT_GRANT_TTL_SECONDS);
+    expect(() => verifyTokenImportGrants([grant], WALLET)).toThrow("has expired");
+    expect(verifyTokenImportGrants([grant], WALLET, { allowExpired: true })).toEqual([MOON]);
+  });
+
+  it("drops grants for registry tokens", () => {
+    const grant = issueTokenImportGrant({ ...TOKENS.USDC }, WALLET, now);
+    expect(verifyTokenImportGrants([grant], WALLET)).toEqual([]);
+  });
+});
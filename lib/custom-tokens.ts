@@ -0,0 +1,161 @@
+// Custom Token Imports
+// Signed grants that let a wallet quote and swap a token outside the registry, for that wallet only
+
+import { getAddress, isAddress } from "viem";
+import { openPayload, sealPayload } from "./signed-payload";
+import { scanTokenSafety } from "./token-safety";
+import { BASE_CHAIN_ID, getTokenByAddress, getTokenBySymbol, type RegistryToken, type TokenInfo } from "./tokens";
+import { TOKEN_IMPORT_GRANT_TTL_SECONDS } from "./token-profile";
+
+const TOKEN_IMPORT_PURPOSE = "token-import";
+
+// Imports a single quote request may carry
+export const MAX_IMPORTED_TOKENS = 20;
+
+// Plain ASCII only, so an import cannot pass for a listed token with spaces or look-alike characters
+const IMPORTED_SYMBOL_PATTERN = /^[A-Z0-9._+-]{1,20}$/;
+
+interface TokenImportGrant {
+  token: TokenInfo;
+  // Lower-cased wallet the token was imported for; it signed the import message at issuedAt
+  wallet: string;
+  issuedAt: number;
+}
+
+/**
+ * Whether a token may be held as an import: unlisted, or listed only by a community list under the same symbol
+ * A trusted listing, or a listed symbol on another contract, always wins over an import
+ */
+export function isImportableToken(token: Pick<TokenInfo, "symbol" | "address">): boolean {
+  const byAddress = getTokenByAddress(token.address);
+  const bySymbol = getTokenBySymbol(token.symbol);
+  if (byAddress && byAddress.trust !== "community") return false;
+  return !bySymbol || bySymbol === byAddress;
+}
+
+/**
+ * Symbol an imported token is quoted under, or null when the on-chain symbol is unusable
+ */
+export function normalizeImportedSymbol(symbol: string): string | null {
+  const normalized = symbol.trim().toUpperCase();
+  return IMPORTED_SYMBOL_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Sign an import grant binding a token's on-chain metadata to one wallet
+ * issuedAt is when the wallet signed for the import; the grant expires TOKEN_IMPORT_GRANT_TTL_SECONDS later
+ */
+export function issueTokenImportGrant(token: TokenInfo, wallet: string, issuedAt: number): string {
+  const grant: TokenImportGrant = {
+    token: {
+      symbol: token.symbol,
+      address: getAddress(token.address),
+      decimals: token.decimals,
+      name: token.name,
+    },
+    wallet: wallet.toLowerCase(),
+    issuedAt,
+  };
+  return sealPayload(TOKEN_IMPORT_PURPOSE, grant);
+}
+
+/**
+ * Check import grants sent with a request and return the tokens they cover
+ * Throws on a forged or expired grant, or one issued to another wallet. A grant whose token has since been
+ * trusted, or whose symbol another listed token has taken, is dropped: the registry entry wins
+ * allowExpired accepts lapsed grants, for lowering allowances only: that never trades the token
+ */
+export function verifyTokenImportGrants(
+  grants: unknown,
+  wallet: string,
+  { allowExpired = false }: { allowExpired?: boolean } = {}
+): TokenInfo[] {
+  if (grants === undefined || grants === null) return [];
+  if (!Array.isArray(grants) || grants.length > MAX_IMPORTED_TOKENS) {
+    throw new Error(`Provide at most ${MAX_IMPORTED_TOKENS} token import grants`);
+  }
+
+  const tokens: TokenInfo[] = [];
+  for (const sealed of grants) {
+    const { token, wallet: grantWallet, issuedAt } = openPayload<TokenImportGrant>(
+      TOKEN_IMPORT_PURPOSE,
+      sealed,
+      "token import grant"
+    );
+    if (grantWallet !== wallet.toLowerCase()) {
+      throw new Error(`Token import grant for ${token.symbol} was issued for a different wallet`);
+    }
+    const expired = issuedAt + TOKEN_IMPORT_GRANT_TTL_SECONDS <= Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(issuedAt) || (expired && !allowExpired)) {
+      throw new Error(`Token import grant for ${token.symbol} has expired. Import it again to re-run the safety check`);
+    }
+    if (!isAddress(token.address) || !isImportableToken(token)) continue;
+    if (tokens.some(existing => existing.symbol === token.symbol)) continue;
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Imported tokens as described by an untrusted client (copilot context): well-formed, importable entries only
+ * Good for display and analysis, never for quoting; decimals are re-read on-chain wherever amounts are formatted
+ */
+export function sanitizeImportedTokens(raw: unknown): TokenInfo[] {
+  if (!Array.isArray(raw)) return [];
+
+  const tokens: TokenInfo[] = [];
+  for (const entry of raw.slice(0, MAX_IMPORTED_TOKENS)) {
+    if (!entry || typeof entry.symbol !== "string" || typeof entry.address !== "string") continue;
+    const symbol = normalizeImportedSymbol(entry.symbol);
+    if (!symbol || !isAddress(entry.address) || !isImportableToken({ symbol, address: entry.address })) continue;
+    tokens.push({
+      symbol,
+      address: getAddress(entry.address),
+      decimals: Number.isInteger(entry.decimals) ? entry.decimals : 18,
+      name: typeof entry.name === "string" ? entry.name.slice(0, 60) : symbol,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Registry-shaped view of an imported token, for code that works on registry entries
+ * Imports carry the lowest trust and never count as stablecoins
+ */
+export function toImportedRegistryToken(token: TokenInfo): RegistryToken {
+  return {
+    ...token,
+    chainId: BASE_CHAIN_ID,
+    aliases: [],
+    priceFeeds: {},
+    risk: { stablecoin: false, bridged: false, native: false },
+    trust: "community",
+    listName: "Imported",
+  };
+}
+
+/**
+ * Imported tokens a quote may trade: grants verified for the recipient and narrowed to the requested symbols
+ * Each is re-scanned, so a token that turned into a honeypot after it was imported is refused
+ */
+export async function resolveQuoteImports(
+  client: Parameters<typeof scanTokenSafety>[0],
+  grants: unknown,
+  recipient: string | undefined,
+  symbols: string[]
+): Promise<TokenInfo[]> {
+  if (grants === undefined || grants === null || (Array.isArray(grants) && grants.length === 0)) return [];
+  if (!recipient) {
+    throw new Error("Token import grants require a recipient");
+  }
+
+  const requested = symbols.map(symbol => symbol.toUpperCase());
+  const tokens = verifyTokenImportGrants(grants, recipient).filter(token => requested.includes(token.symbol));
+
+  const reports = await Promise.all(tokens.map(token => scanTokenSafety(client, token)));
+  const honeypot = reports.find(report => report.honeypot);
+  if (honeypot) {
+    throw new Error(`${honeypot.symbol} cannot be sold back; quotes for it are refused`);
+  }
+  return tokens;
+}
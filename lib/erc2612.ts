@@ -0,0 +1,179 @@
+// EIP-2612 Permits
+// Detects tokens with a standard permit (DOMAIN_SEPARATOR/nonces) and builds the typed data the wallet signs,
+// so SwapRouter02 can selfPermit and swap in one transaction instead of an approve first
+
+import { domainSeparator, recoverTypedDataAddress, type PublicClient } from "viem";
+import { ERC20_ABI, ERC2612_ABI, MAX_DEADLINE_SECONDS, UNISWAP_CONTRACTS } from "./uniswap";
+import { BASE_CHAIN_ID } from "./tokens";
+import { openPayload, sealPayload } from "./signed-payload";
+import type { SelfPermitParams } from "./swap-builder";
+
+const PERMIT_PURPOSE = "erc2612-permit";
+
+// Versions tried when a token has no version() getter (OpenZeppelin ERC20Permit defaults to "1")
+const FALLBACK_VERSIONS = ["1", "2"];
+
+export const ERC2612_PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export interface Erc2612Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: `0x${string}`;
+}
+
+/**
+ * Permit as sent to and signed by the client (uint values as decimal strings)
+ */
+export interface Erc2612PermitData {
+  owner: `0x${string}`;
+  spender: `0x${string}`;
+  value: string;
+  nonce: string;
+  deadline: string;
+}
+
+type Erc2612Client = Pick<PublicClient, "multicall">;
+
+interface SealedErc2612Permit {
+  domain: Erc2612Domain;
+  permit: Erc2612PermitData;
+}
+
+/**
+ * The token's EIP-712 domain, the owner's next nonce and current SwapRouter02 allowance,
+ * or null when the token has no usable permit
+ * A domain is only trusted when it hashes to the token's own DOMAIN_SEPARATOR; otherwise the
+ * signature would be for a different domain and permit() would revert
+ */
+export async function detectErc2612Support(
+  client: Erc2612Client,
+  token: `0x${string}`,
+  owner: `0x${string}`
+): Promise<{ domain: Erc2612Domain; nonce: bigint; routerAllowance: bigint } | null> {
+  const [separator, nonce, name, version, routerAllowance] = await client.multicall({
+    contracts: [
+      { address: token, abi: ERC2612_ABI, functionName: "DOMAIN_SEPARATOR" },
+      { address: token, abi: ERC2612_ABI, functionName: "nonces", args: [owner] },
+      { address: token, abi: ERC20_ABI, functionName: "name" },
+      { address: token, abi: ERC2612_ABI, functionName: "version" },
+      {
+        address: token,
+        abi: ERC20_ABI,
+        functionName: "allowance",
+        args: [owner, UNISWAP_CONTRACTS.SwapRouter02],
+      },
+    ],
+    allowFailure: true,
+  });
+
+  if (
+    separator.status !== "success" ||
+    nonce.status !== "success" ||
+    name.status !== "success" ||
+    routerAllowance.status !== "success"
+  ) {
+    return null;
+  }
+
+  const versions = version.status === "success" ? [version.result] : FALLBACK_VERSIONS;
+  for (const candidate of versions) {
+    const domain = { name: name.result, version: candidate, chainId: BASE_CHAIN_ID, verifyingContract: token };
+    if (domainSeparator({ domain }).toLowerCase() === separator.result.toLowerCase()) {
+      return { domain, nonce: nonce.result, routerAllowance: routerAllowance.result };
+    }
+  }
+  return null;
+}
+
+/**
+ * Permit letting SwapRouter02 spend exactly value of the owner's token, signable until the longest swap deadline
+ */
+export function buildErc2612Permit(
+  owner: `0x${string}`,
+  value: bigint,
+  nonce: bigint,
+  now: number = Math.floor(Date.now() / 1000)
+): Erc2612PermitData {
+  return {
+    owner,
+    spender: UNISWAP_CONTRACTS.SwapRouter02,
+    value: value.toString(),
+    nonce: nonce.toString(),
+    deadline: (now + MAX_DEADLINE_SECONDS).toString(),
+  };
+}
+
+/**
+ * EIP-712 typed data for the wallet to sign
+ */
+export function getErc2612TypedData(domain: Erc2612Domain, permit: Erc2612PermitData) {
+  return {
+    domain,
+    types: ERC2612_PERMIT_TYPES,
+    primaryType: "Permit" as const,
+    message: permit,
+  };
+}
+
+export type Erc2612TypedData = ReturnType<typeof getErc2612TypedData>;
+
+/**
+ * Seal a permit with its domain so build-swap only ever redeems permits this service built
+ */
+export function issueErc2612Permit(domain: Erc2612Domain, permit: Erc2612PermitData): string {
+  const sealed: SealedErc2612Permit = { domain, permit };
+  return sealPayload(PERMIT_PURPOSE, sealed);
+}
+
+/**
+ * Open a sealed permit; throws if it was not built here, belongs to another wallet or has expired
+ */
+export function openErc2612Permit(sealed: unknown, owner: string): SealedErc2612Permit {
+  const opened = openPayload<SealedErc2612Permit>(PERMIT_PURPOSE, sealed, "permit");
+  if (opened.permit.owner.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error("Permit was built for a different wallet");
+  }
+  if (Number(opened.permit.deadline) <= Math.floor(Date.now() / 1000)) {
+    throw new Error("Permit deadline has passed");
+  }
+  return opened;
+}
+
+/**
+ * selfPermit arguments for a signed permit
+ * Tokens check permits with ecrecover, so unlike Permit2 only an EOA signature of the owner is accepted
+ */
+export async function toSelfPermit(
+  { domain, permit }: SealedErc2612Permit,
+  signature: `0x${string}`
+): Promise<SelfPermitParams> {
+  const signer = await recoverTypedDataAddress({
+    ...getErc2612TypedData(domain, permit),
+    message: {
+      ...permit,
+      value: BigInt(permit.value),
+      nonce: BigInt(permit.nonce),
+      deadline: BigInt(permit.deadline),
+    },
+    signature,
+  });
+  if (signer.toLowerCase() !== permit.owner.toLowerCase()) {
+    throw new Error("Permit signature does not match the wallet");
+  }
+
+  return {
+    token: domain.verifyingContract,
+    value: BigInt(permit.value),
+    deadline: BigInt(permit.deadline),
+    signature,
+  };
+}
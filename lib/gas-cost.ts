@@ -0,0 +1,169 @@
+// Swap Gas Cost on Base
+// Prices L2 execution gas plus the L1 data fee and converts the total into token terms
+
+import type { PublicClient } from "viem";
+import { TOKENS, TokenInfo } from "./tokens";
+import { UNISWAP_V3_POOL_ABI, computePoolAddress } from "./uniswap";
+import { ROUTE_FEE_TIERS } from "./routing";
+import { hopPriceFromSqrtPriceX96 } from "./price-impact";
+import { buildSwapCalldata, buildSplitSwapCalldata } from "./swap-builder";
+
+// OP Stack GasPriceOracle predeploy (prices the L1 data fee of a transaction)
+export const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F" as const;
+
+const GAS_PRICE_ORACLE_ABI = [
+  {
+    inputs: [{ internalType: "uint256", name: "_unsignedTxSize", type: "uint256" }],
+    name: "getL1FeeUpperBound",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Gas the quoter does not measure: intrinsic tx cost, router multicall and token transfers
+export const SWAP_TX_OVERHEAD_GAS = 60_000n;
+
+// Largest route and split shapes the L1 fee is priced for
+const MAX_PRICED_HOPS = 3;
+const MAX_PRICED_LEGS = ROUTE_FEE_TIERS.length;
+
+export interface GasCostModel {
+  gasPrice: bigint;
+  // L1 data fee (wei) for a single route by hop count, and for a split by leg count
+  l1FeeByHops: Record<number, bigint>;
+  l1FeeByLegs: Record<number, bigint>;
+}
+
+export interface SwapGasCost {
+  l2FeeWei: bigint;
+  l1FeeWei: bigint;
+  totalWei: bigint;
+}
+
+type GasClient = Pick<PublicClient, "readContract" | "getGasPrice">;
+
+const PLACEHOLDER_TOKEN = (n: number) => `0x${n.toString(16).padStart(40, "f")}` as `0x${string}`;
+
+/**
+ * Calldata size of the router multicall for a route with the given number of hops
+ * (content does not matter, only the encoded length)
+ */
+function routeCalldataSize(hops: number): number {
+  const { data } = buildSwapCalldata({
+    tradeType: "exactInput",
+    tokens: Array.from({ length: hops + 1 }, (_, i) => PLACEHOLDER_TOKEN(i)),
+    fees: Array(hops).fill(500),
+    recipient: PLACEHOLDER_TOKEN(99),
+    amountIn: 10n ** 18n,
+    amountOut: 10n ** 18n,
+    isSellingETH: false,
+    isBuyingETH: false,
+    deadline: Math.floor(Date.now() / 1000),
+  });
+  return (data.length - 2) / 2;
+}
+
+function splitCalldataSize(legs: number): number {
+  const { data } = buildSplitSwapCalldata({
+    tokenIn: PLACEHOLDER_TOKEN(0),
+    tokenOut: PLACEHOLDER_TOKEN(1),
+    legs: Array.from({ length: legs }, () => ({ fee: 500, amountIn: 10n ** 18n, amountOutMinimum: 10n ** 18n })),
+    recipient: PLACEHOLDER_TOKEN(99),
+    isSellingETH: false,
+    isBuyingETH: false,
+    deadline: Math.floor(Date.now() / 1000),
+  });
+  return (data.length - 2) / 2;
+}
+
+/**
+ * Read the current L2 gas price and the L1 data fee for every swap shape
+ * Transaction envelope bytes are not included; the oracle's upper bound covers them
+ */
+export async function getGasCostModel(client: GasClient): Promise<GasCostModel> {
+  const hopCounts = Array.from({ length: MAX_PRICED_HOPS }, (_, i) => i + 1);
+  const legCounts = Array.from({ length: MAX_PRICED_LEGS - 1 }, (_, i) => i + 2);
+
+  const l1Fee = (size: number) =>
+    client.readContract({
+      address: GAS_PRICE_ORACLE,
+      abi: GAS_PRICE_ORACLE_ABI,
+      functionName: "getL1FeeUpperBound",
+      args: [BigInt(size)],
+    });
+
+  const [gasPrice, hopFees, legFees] = await Promise.all([
+    client.getGasPrice(),
+    Promise.all(hopCounts.map(hops => l1Fee(routeCalldataSize(hops)))),
+    Promise.all(legCounts.map(legs => l1Fee(splitCalldataSize(legs)))),
+  ]);
+
+  return {
+    gasPrice,
+    l1FeeByHops: Object.fromEntries(hopCounts.map((hops, i) => [hops, hopFees[i]])),
+    l1FeeByLegs: Object.fromEntries(legCounts.map((legs, i) => [legs, legFees[i]])),
+  };
+}
+
+/**
+ * Total cost in wei of a swap whose quoted gas is gasEstimate
+ * Pass hops for a single route or legs for a split
+ */
+export function estimateSwapGasCost(
+  model: GasCostModel,
+  gasEstimate: bigint,
+  shape: { hops: number } | { legs: number }
+): SwapGasCost {
+  const l2FeeWei = (gasEstimate + SWAP_TX_OVERHEAD_GAS) * model.gasPrice;
+  const l1FeeWei = "hops" in shape
+    ? model.l1FeeByHops[Math.min(shape.hops, MAX_PRICED_HOPS)] ?? 0n
+    : model.l1FeeByLegs[Math.min(shape.legs, MAX_PRICED_LEGS)] ?? 0n;
+
+  return { l2FeeWei, l1FeeWei, totalWei: l2FeeWei + l1FeeWei };
+}
+
+/**
+ * Price of 1 ETH in a token (human units) from its deepest direct WETH pool
+ * Returns null when the token has no WETH pool
+ */
+export async function getTokensPerEth(
+  client: Pick<PublicClient, "readContract">,
+  token: TokenInfo
+): Promise<number | null> {
+  if (token.address.toLowerCase() === TOKENS.WETH.address.toLowerCase()) return 1;
+
+  const pools = await Promise.all(
+    ROUTE_FEE_TIERS.map(async fee => {
+      const address = computePoolAddress(TOKENS.WETH.address, token.address, fee);
+      try {
+        const [[sqrtPriceX96], liquidity] = await Promise.all([
+          client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "slot0" }),
+          client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "liquidity" }),
+        ]);
+        return { fee, sqrtPriceX96, liquidity };
+      } catch {
+        // Pool not deployed for this tier
+        return null;
+      }
+    })
+  );
+
+  let deepest: { fee: number; sqrtPriceX96: bigint; liquidity: bigint } | null = null;
+  for (const pool of pools) {
+    if (pool && pool.liquidity > 0n && (!deepest || pool.liquidity > deepest.liquidity)) {
+      deepest = pool;
+    }
+  }
+
+  if (!deepest) return null;
+  return hopPriceFromSqrtPriceX96({ tokenIn: TOKENS.WETH, tokenOut: token, fee: deepest.fee }, deepest.sqrtPriceX96);
+}
+
+/**
+ * Convert a wei amount into raw units of a token worth the same, given its price per ETH
+ */
+export function weiToTokenAmount(wei: bigint, tokensPerEth: number, decimals: number): bigint {
+  const amount = (Number(wei) / 1e18) * tokensPerEth * 10 ** decimals;
+  return Number.isFinite(amount) ? BigInt(Math.ceil(amount)) : 0n;
+}
@@ -1,3 +1,5 @@
+import { SUPPORTED_TOKEN_SYMBOLS } from "./tokens";
+
 export const SWAP_TOOL = {
   name: "execute_defi_swap",
   description: "Execute a token swap on Base mainnet",
@@ -6,7 +8,7 @@ export const SWAP_TOOL = {
     properties: {
       token_in: {
         type: "string",
-        description: "Input token symbol (ETH, WETH, USDC)"
+        description: `Input token symbol (${SUPPORTED_TOKEN_SYMBOLS.join(", ")})`
       },
       token_out: {
         type: "string",
@@ -14,7 +16,11 @@ export const SWAP_TOOL = {
       },
       amount_in: {
         type: "number",
-        description: "Amount to swap (human-readable, e.g. 0.1 for 0.1 ETH)"
+        description: "Amount to swap (human-readable, e.g. 0.1 for 0.1 ETH). Omit when amount_out is given"
+      },
+      amount_out: {
+        type: "number",
+        description: "Exact amount of token_out to receive (e.g. 500 for \"buy exactly 500 USDC\"). Use instead of amount_in"
       },
       slippage_tolerance: {
         type: "number",
@@ -22,6 +28,6 @@ export const SWAP_TOOL = {
         default: 1
       }
     },
-    required: ["token_in", "token_out", "amount_in"]
+    required: ["token_in", "token_out"]
   }
 } as const;
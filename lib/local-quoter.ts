@@ -0,0 +1,428 @@
+// Local Concentrated-Liquidity Quoter
+// Simulates Uniswap V3 swaps in-process with @uniswap/v3-sdk: price and liquidity are read once per block,
+// tick data is kept across blocks
+
+import { zeroAddress, type PublicClient } from "viem";
+import { CurrencyAmount, Token } from "@uniswap/sdk-core";
+import { FeeAmount, Pool, TICK_SPACINGS, type TickDataProvider } from "@uniswap/v3-sdk";
+import { BASE_CHAIN_ID, type TokenInfo } from "./tokens";
+import type { QuotedRoute, RouteHop, TradeType } from "./routing";
+import {
+  UNISWAP_CONTRACTS,
+  UNISWAP_V3_FACTORY_ABI,
+  UNISWAP_V3_POOL_ABI,
+  encodeV3Path,
+} from "./uniswap";
+
+// Tick bitmap words loaded on each side of the current tick (one word covers 256 tick spacings)
+export const TICK_WORDS_EACH_SIDE = 2;
+
+// Initialized ticks read on each side of the current tick; a trade crossing more is quoted by QuoterV2
+export const MAX_TICKS_EACH_SIDE = 16;
+
+// Tick liquidity only changes on mint/burn, so it is kept across blocks and reread after this long,
+// or as soon as the price leaves the loaded tick range
+const TICK_DATA_TTL_MS = 60_000;
+
+// A pair and fee tier the factory has no pool for is looked up again after this long
+const MISSING_POOL_TTL_MS = 10 * 60_000;
+
+// Gas model used only for ranking; the chosen route is re-quoted on-chain for its real estimate
+const LOCAL_GAS_PER_HOP = 100_000n;
+const LOCAL_GAS_PER_TICK_CROSSED = 25_000n;
+
+// Thrown inside the swap simulation when it walks past the loaded tick data
+const TICK_DATA_UNAVAILABLE = "Tick data not loaded for this range";
+
+export type LocalQuoteResult =
+  | { status: "quoted"; route: QuotedRoute }
+  // No pool exists on the route, or it cannot fill the amount
+  | { status: "no-liquidity" }
+  // The engine cannot price the route (tick range not loaded, RPC failure); ask QuoterV2
+  | { status: "unavailable" };
+
+// Price and in-range liquidity of a pool at one block
+export interface PoolState {
+  address: `0x${string}`;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+interface PoolTickData {
+  words: Map<number, bigint>;
+  // Initialized tick -> liquidityNet
+  ticks: Map<number, bigint>;
+  // The current tick must stay inside this range for the data to be usable
+  lowTick: number;
+  highTick: number;
+  loadedAt: number;
+}
+
+interface LoadedPool {
+  pool: Pool;
+  ticks: Map<number, bigint>;
+}
+
+type EngineClient = Pick<PublicClient, "readContract" | "getBlockNumber">;
+
+// Factory lookups; pools are never destroyed, so only misses expire
+const poolAddresses = new Map<string, { address: Promise<`0x${string}` | null>; checkedAt: number }>();
+
+// Tick data by pool address, shared across blocks
+const tickDataCache = new Map<string, Promise<PoolTickData>>();
+
+// slot0 and liquidity are only valid for the block they were read at; a newer block clears the cache
+let cachedBlock: bigint | null = null;
+const poolStateCache = new Map<string, Promise<PoolState | null>>();
+
+function toSdkToken(token: TokenInfo): Token {
+  return new Token(BASE_CHAIN_ID, token.address, token.decimals, token.symbol, token.name);
+}
+
+function mostSignificantBit(value: bigint): number {
+  return value.toString(2).length - 1;
+}
+
+function leastSignificantBit(value: bigint): number {
+  return (value & -value).toString(2).length - 1;
+}
+
+/**
+ * Tick data provider backed by the pool's on-chain tick bitmap words
+ * Mirrors TickBitmap.nextInitializedTickWithinOneWord and refuses to guess outside the loaded words
+ */
+function createBitmapTickProvider(
+  words: Map<number, bigint>,
+  ticks: Map<number, bigint>
+): TickDataProvider {
+  const position = (compressed: number) => {
+    const wordPos = compressed >> 8;
+    return { wordPos, bitPos: compressed - wordPos * 256 };
+  };
+
+  const requireWord = (wordPos: number) => {
+    const word = words.get(wordPos);
+    if (word === undefined) throw new Error(TICK_DATA_UNAVAILABLE);
+    return word;
+  };
+
+  return {
+    async getTick(tick: number) {
+      const liquidityNet = ticks.get(tick);
+      if (liquidityNet === undefined) throw new Error(TICK_DATA_UNAVAILABLE);
+      return { liquidityNet: liquidityNet.toString() };
+    },
+
+    async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number) {
+      const compressed = Math.floor(tick / tickSpacing);
+
+      if (lte) {
+        const { wordPos, bitPos } = position(compressed);
+        const masked = requireWord(wordPos) & ((1n << BigInt(bitPos + 1)) - 1n);
+        return masked !== 0n
+          ? [(compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing, true]
+          : [(compressed - bitPos) * tickSpacing, false];
+      }
+
+      const { wordPos, bitPos } = position(compressed + 1);
+      const masked = requireWord(wordPos) & ~((1n << BigInt(bitPos)) - 1n);
+      return masked !== 0n
+        ? [(compressed + 1 + (leastSignificantBit(masked) - bitPos)) * tickSpacing, true]
+        : [(compressed + 1 + (255 - bitPos)) * tickSpacing, false];
+    },
+  };
+}
+
+function poolKey(tokenA: TokenInfo, tokenB: TokenInfo, fee: number): string {
+  const [a, b] = [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()].sort();
+  return `${a}-${b}-${fee}`;
+}
+
+/**
+ * Pool address from the factory, or null when it has no pool for the pair and fee tier
+ */
+function getPoolAddress(
+  client: EngineClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number
+): Promise<`0x${string}` | null> {
+  const key = poolKey(tokenA, tokenB, fee);
+  const cached = poolAddresses.get(key);
+  if (cached && Date.now() - cached.checkedAt < MISSING_POOL_TTL_MS) return cached.address;
+
+  const address = client
+    .readContract({
+      address: UNISWAP_CONTRACTS.UniswapV3Factory,
+      abi: UNISWAP_V3_FACTORY_ABI,
+      functionName: "getPool",
+      args: [tokenA.address, tokenB.address, fee],
+    })
+    .then(pool => (pool === zeroAddress ? null : pool));
+  // Existing pools are remembered for good; misses expire; RPC failures are not remembered
+  address.then(
+    pool => {
+      if (pool) poolAddresses.set(key, { address, checkedAt: Infinity });
+    },
+    () => poolAddresses.delete(key)
+  );
+  poolAddresses.set(key, { address, checkedAt: Date.now() });
+  return address;
+}
+
+/**
+ * Read a pool's price and in-range liquidity at a block
+ */
+async function loadPoolState(
+  client: EngineClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number,
+  blockNumber: bigint
+): Promise<PoolState | null> {
+  const address = await getPoolAddress(client, tokenA, tokenB, fee);
+  if (!address) return null;
+
+  const [[sqrtPriceX96, tick], liquidity] = await Promise.all([
+    client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "slot0", blockNumber }),
+    client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "liquidity", blockNumber }),
+  ]);
+
+  return { address, sqrtPriceX96, tick, liquidity };
+}
+
+/**
+ * Pool state at a block, read once and shared by every quote in that block
+ * Returns null when the factory has no pool for the pair and fee tier
+ */
+export function getPoolState(
+  client: EngineClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number,
+  blockNumber: bigint
+): Promise<PoolState | null> {
+  // Requests pinned to an older block than the cache are served uncached
+  if (cachedBlock !== null && blockNumber < cachedBlock) {
+    return loadPoolState(client, tokenA, tokenB, fee, blockNumber);
+  }
+
+  if (cachedBlock !== blockNumber) {
+    poolStateCache.clear();
+    cachedBlock = blockNumber;
+  }
+
+  const key = poolKey(tokenA, tokenB, fee);
+  let loading = poolStateCache.get(key);
+  if (!loading) {
+    loading = loadPoolState(client, tokenA, tokenB, fee, blockNumber);
+    // Do not remember RPC failures; the next quote retries the load
+    loading.catch(() => poolStateCache.delete(key));
+    poolStateCache.set(key, loading);
+  }
+  return loading;
+}
+
+/**
+ * Read the bitmap words around the current tick and the initialized ticks nearest to it,
+ * at most MAX_TICKS_EACH_SIDE on each side
+ */
+async function loadTickData(
+  client: EngineClient,
+  address: `0x${string}`,
+  tickSpacing: number,
+  tick: number,
+  blockNumber: bigint
+): Promise<PoolTickData> {
+  const centerWord = Math.floor(tick / tickSpacing) >> 8;
+  const wordPositions = Array.from(
+    { length: TICK_WORDS_EACH_SIDE * 2 + 1 },
+    (_, i) => centerWord - TICK_WORDS_EACH_SIDE + i
+  );
+
+  const bitmaps = await Promise.all(
+    wordPositions.map(wordPos =>
+      client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "tickBitmap", args: [wordPos], blockNumber })
+    )
+  );
+
+  const words = new Map<number, bigint>();
+  const initializedTicks: number[] = [];
+  wordPositions.forEach((wordPos, i) => {
+    words.set(wordPos, bitmaps[i]);
+    for (let bit = 0; bit < 256; bit++) {
+      if ((bitmaps[i] >> BigInt(bit)) & 1n) {
+        initializedTicks.push((wordPos * 256 + bit) * tickSpacing);
+      }
+    }
+  });
+
+  // Ticks come out of the words in ascending order; keep the ones a trade reaches first
+  const below = initializedTicks.filter(initializedTick => initializedTick <= tick).slice(-MAX_TICKS_EACH_SIDE);
+  const above = initializedTicks.filter(initializedTick => initializedTick > tick).slice(0, MAX_TICKS_EACH_SIDE);
+  const loadedTicks = [...below, ...above];
+
+  const tickData = await Promise.all(
+    loadedTicks.map(initializedTick =>
+      client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "ticks", args: [initializedTick], blockNumber })
+    )
+  );
+
+  const ticks = new Map<number, bigint>();
+  loadedTicks.forEach((initializedTick, i) => ticks.set(initializedTick, tickData[i][1]));
+
+  // Past the last loaded tick on a capped side the data is incomplete; otherwise the words bound it
+  const firstWord = wordPositions[0];
+  const lastWord = wordPositions[wordPositions.length - 1];
+  return {
+    words,
+    ticks,
+    lowTick: below.length === MAX_TICKS_EACH_SIDE ? below[0] : firstWord * 256 * tickSpacing,
+    highTick: above.length === MAX_TICKS_EACH_SIDE ? above[above.length - 1] : (lastWord * 256 + 255) * tickSpacing,
+    loadedAt: Date.now(),
+  };
+}
+
+/**
+ * Tick data for a pool, reused across blocks until it expires or the price leaves its range
+ */
+async function getTickData(
+  client: EngineClient,
+  state: PoolState,
+  tickSpacing: number,
+  blockNumber: bigint
+): Promise<PoolTickData> {
+  const key = state.address.toLowerCase();
+  const cached = tickDataCache.get(key);
+  if (cached) {
+    const data = await cached.catch(() => null);
+    if (
+      data &&
+      Date.now() - data.loadedAt < TICK_DATA_TTL_MS &&
+      state.tick >= data.lowTick &&
+      state.tick < data.highTick
+    ) {
+      return data;
+    }
+    // Another quote may already have replaced the stale entry
+    if (tickDataCache.get(key) !== cached) return getTickData(client, state, tickSpacing, blockNumber);
+  }
+
+  const loading = loadTickData(client, state.address, tickSpacing, state.tick, blockNumber);
+  loading.catch(() => tickDataCache.delete(key));
+  tickDataCache.set(key, loading);
+  return loading;
+}
+
+/**
+ * Pool ready for local simulation: state at the block plus the cached tick data around its price
+ */
+async function loadPool(
+  client: EngineClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number,
+  blockNumber: bigint
+): Promise<LoadedPool | null> {
+  const state = await getPoolState(client, tokenA, tokenB, fee, blockNumber);
+  if (!state) return null;
+
+  const tickData = await getTickData(client, state, TICK_SPACINGS[fee as FeeAmount], blockNumber);
+
+  return {
+    pool: new Pool(
+      toSdkToken(tokenA),
+      toSdkToken(tokenB),
+      fee as FeeAmount,
+      state.sqrtPriceX96.toString(),
+      state.liquidity.toString(),
+      state.tick,
+      createBitmapTickProvider(tickData.words, tickData.ticks)
+    ),
+    ticks: tickData.ticks,
+  };
+}
+
+/**
+ * Latest block number for pinning pool reads (cached briefly; Base produces a block every 2s)
+ */
+export function getQuoteBlockNumber(client: EngineClient): Promise<bigint> {
+  return client.getBlockNumber({ cacheTime: 1_000 });
+}
+
+function countTicksCrossed(loaded: LoadedPool, tickAfter: number): bigint {
+  const low = Math.min(loaded.pool.tickCurrent, tickAfter);
+  const high = Math.max(loaded.pool.tickCurrent, tickAfter);
+  let crossed = 0n;
+  for (const tick of loaded.ticks.keys()) {
+    if (tick > low && tick <= high) crossed++;
+  }
+  return crossed;
+}
+
+/**
+ * Quote a route by simulating each hop's swap locally
+ * Exact input walks the hops forward; exact output walks them backward from the amount bought
+ */
+export async function quoteRouteLocally(
+  client: EngineClient,
+  hops: RouteHop[],
+  amount: bigint,
+  tradeType: TradeType,
+  blockNumber: bigint
+): Promise<LocalQuoteResult> {
+  try {
+    const pools = await Promise.all(
+      hops.map(hop => loadPool(client, hop.tokenIn, hop.tokenOut, hop.fee, blockNumber))
+    );
+    if (pools.some(pool => pool === null)) return { status: "no-liquidity" };
+
+    const sqrtPriceX96AfterList: bigint[] = Array(hops.length);
+    let gasEstimate = 0n;
+    let current = amount;
+
+    const order = hops.map((_, i) => i);
+    if (tradeType === "exactOutput") order.reverse();
+
+    for (const i of order) {
+      const loaded = pools[i] as LoadedPool;
+      const [result, poolAfter] = tradeType === "exactInput"
+        ? await loaded.pool.getOutputAmount(
+            CurrencyAmount.fromRawAmount(toSdkToken(hops[i].tokenIn), current.toString())
+          )
+        : await loaded.pool.getInputAmount(
+            CurrencyAmount.fromRawAmount(toSdkToken(hops[i].tokenOut), current.toString())
+          );
+
+      current = BigInt(result.quotient.toString());
+      if (current <= 0n) return { status: "no-liquidity" };
+
+      sqrtPriceX96AfterList[i] = BigInt(poolAfter.sqrtRatioX96.toString());
+      gasEstimate += LOCAL_GAS_PER_HOP + LOCAL_GAS_PER_TICK_CROSSED * countTicksCrossed(loaded, poolAfter.tickCurrent);
+    }
+
+    const tokens = [hops[0].tokenIn.address, ...hops.map(hop => hop.tokenOut.address)];
+    const fees = hops.map(hop => hop.fee);
+
+    return {
+      status: "quoted",
+      route: {
+        hops,
+        path: tradeType === "exactOutput"
+          ? encodeV3Path([...tokens].reverse(), [...fees].reverse())
+          : encodeV3Path(tokens, fees),
+        tradeType,
+        amountIn: tradeType === "exactInput" ? amount : current,
+        amountOut: tradeType === "exactInput" ? current : amount,
+        gasEstimate,
+        sqrtPriceX96AfterList,
+      },
+    };
+  } catch (error) {
+    if (!(error instanceof Error && error.message === TICK_DATA_UNAVAILABLE)) {
+      console.warn("Local quote failed, deferring to QuoterV2:", error);
+    }
+    return { status: "unavailable" };
+  }
+}
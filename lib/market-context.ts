@@ -1,5 +1,7 @@
 // Market Context Service for real-time price data and market insights
 
+import { TOKEN_REGISTRY, getTokenBySymbol } from './tokens';
+
 interface TokenPrice {
   symbol: string;
   price: number;
@@ -33,12 +35,10 @@ export async function getMarketContext(tokens: string[]): Promise<MarketContext>
 
   try {
     // Map token symbols to CoinGecko IDs
-    const tokenIds: Record<string, string> = {
-      ETH: 'ethereum',
-      WETH: 'weth',
-      USDC: 'usd-coin',
-      USDBC: 'bridged-usd-coin-base',
-    };
+    const tokenIds: Record<string, string> = {};
+    for (const token of TOKEN_REGISTRY) {
+      if (token.priceFeeds.coingecko) tokenIds[token.symbol] = token.priceFeeds.coingecko;
+    }
 
     const ids = tokens.map(t => tokenIds[t]).filter(Boolean).join(',');
 
@@ -192,7 +192,7 @@ export function generateSuggestedActions(
 
   const outPrice = marketContext.prices[tokenOut];
 
-  if (tokenOut === 'USDC' || tokenOut === 'USDBC') {
+  if (getTokenBySymbol(tokenOut)?.risk.stablecoin) {
     suggestions.push('Want to stake your USDC on Aave to earn yield?');
     suggestions.push('Set a price alert to swap back when conditions are favorable?');
   } else if (tokenOut === 'ETH' || tokenOut === 'WETH') {
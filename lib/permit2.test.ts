@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildPermitSingle, issuePermit, openPermit } from "./permit2";
+import { TOKENS } from "./tokens";
+import { UNISWAP_CONTRACTS } from "./uniswap";
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+
+describe("sealed Permit2 permits", () => {
+  beforeEach(() => {
+    vi.stubEnv("QUOTE_TICKET_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reopens a permit for its owner", () => {
+    const permit = buildPermitSingle(TOKENS.USDC.address, 1_000_000n, 0);
+    expect(permit.spender).toBe(UNISWAP_CONTRACTS.UniversalRouter);
+    expect(openPermit(issuePermit(OWNER, permit), OWNER)).toEqual(permit);
+  });
+
+  it("rejects a permit built for another wallet", () => {
+    const sealed = issuePermit(OWNER, buildPermitSingle(TOKENS.USDC.address, 1_000_000n, 0));
+    expect(() => openPermit(sealed, "0x2222222222222222222222222222222222222222")).toThrow("different wallet");
+  });
+
+  it("rejects a permit past its signature deadline", () => {
+    const sealed = issuePermit(OWNER, buildPermitSingle(TOKENS.USDC.address, 1_000_000n, 0, 1_000_000));
+    expect(() => openPermit(sealed, OWNER)).toThrow("deadline has passed");
+  });
+});
@@ -0,0 +1,295 @@
+// Permit2 Approvals
+// One on-chain approval of Permit2 per token, then a PermitSingle signature per swap that the
+// Universal Router redeems in the same transaction as the swap
+
+import { encodeAbiParameters, encodeFunctionData, type PublicClient } from "viem";
+import {
+  ERC20_ABI,
+  PERMIT2_ABI,
+  ROUTER_ADDRESS_THIS,
+  UNISWAP_CONTRACTS,
+  UNIVERSAL_ROUTER_ABI,
+  MAX_DEADLINE_SECONDS,
+  encodeV3Path,
+} from "./uniswap";
+import { BASE_CHAIN_ID } from "./tokens";
+import { openPayload, sealPayload } from "./signed-payload";
+import type { SwapBuildParams, SwapBuildResult } from "./swap-builder";
+import type { QuoteTicket } from "./quote-ticket";
+
+const PERMIT_PURPOSE = "permit2-permit";
+
+// How long a signed allowance stays usable; anything the swap does not spend lapses with it
+export const PERMIT_EXPIRATION_SECONDS = 30 * 24 * 60 * 60;
+// A signature must be redeemed within the longest swap deadline
+const PERMIT_SIG_DEADLINE_SECONDS = MAX_DEADLINE_SECONDS;
+
+// Universal Router command bytes
+const COMMANDS = {
+  V3_SWAP_EXACT_IN: 0x00,
+  V3_SWAP_EXACT_OUT: 0x01,
+  PERMIT2_PERMIT: 0x0a,
+  UNWRAP_WETH: 0x0c,
+} as const;
+
+export const PERMIT_SINGLE_TYPES = {
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+} as const;
+
+const PERMIT_SINGLE_ABI_PARAMETER = {
+  type: "tuple",
+  components: [
+    {
+      name: "details",
+      type: "tuple",
+      components: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint160" },
+        { name: "expiration", type: "uint48" },
+        { name: "nonce", type: "uint48" },
+      ],
+    },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * PermitSingle as sent to and signed by the client (uint amounts as decimal strings)
+ */
+export interface PermitSingleData {
+  details: {
+    token: `0x${string}`;
+    amount: string;
+    expiration: number;
+    nonce: number;
+  };
+  spender: `0x${string}`;
+  sigDeadline: string;
+}
+
+export type Permit2ApprovalState =
+  // The token has not approved Permit2 for the amount (one on-chain approval)
+  | { status: "approve-permit2"; tokenAllowance: string }
+  // Permit2 is approved but the router's allowance is short or expired (one signature)
+  | { status: "sign-permit"; permitAmount: string; permitExpiration: number; nonce: number }
+  // A live allowance covers the swap; nothing to sign
+  | { status: "permitted"; permitAmount: string; permitExpiration: number };
+
+type Permit2Client = Pick<PublicClient, "multicall" | "verifyTypedData">;
+
+interface SealedPermit {
+  owner: string;
+  permit: PermitSingleData;
+}
+
+/**
+ * Whether a quote can be paid through Permit2: an ERC-20 sold along a single Uniswap V3 route
+ * Aerodrome and split swaps stay on their routers and the classic approve flow
+ */
+export function supportsPermit2(ticket: Pick<QuoteTicket, "venue" | "split" | "tokenIn">): boolean {
+  return ticket.venue === "uniswap-v3" && !ticket.split && ticket.tokenIn !== "ETH";
+}
+
+/**
+ * What the owner still has to do before the Universal Router can pull amount of token through Permit2
+ */
+export async function getPermit2ApprovalState(
+  client: Permit2Client,
+  owner: `0x${string}`,
+  token: `0x${string}`,
+  amount: bigint
+): Promise<Permit2ApprovalState> {
+  const [tokenAllowance, [permitAmount, permitExpiration, nonce]] = await client.multicall({
+    contracts: [
+      { address: token, abi: ERC20_ABI, functionName: "allowance", args: [owner, UNISWAP_CONTRACTS.Permit2] },
+      {
+        address: UNISWAP_CONTRACTS.Permit2,
+        abi: PERMIT2_ABI,
+        functionName: "allowance",
+        args: [owner, token, UNISWAP_CONTRACTS.UniversalRouter],
+      },
+    ],
+    allowFailure: false,
+  });
+
+  if (tokenAllowance < amount) {
+    return { status: "approve-permit2", tokenAllowance: tokenAllowance.toString() };
+  }
+
+  // Permit2 treats an allowance as expired once block.timestamp passes its expiration
+  const now = Math.floor(Date.now() / 1000);
+  if (permitAmount < amount || permitExpiration <= now + PERMIT_SIG_DEADLINE_SECONDS) {
+    return {
+      status: "sign-permit",
+      permitAmount: permitAmount.toString(),
+      permitExpiration,
+      nonce,
+    };
+  }
+  return { status: "permitted", permitAmount: permitAmount.toString(), permitExpiration };
+}
+
+/**
+ * PermitSingle allowing the Universal Router to pull exactly amount of token
+ */
+export function buildPermitSingle(
+  token: `0x${string}`,
+  amount: bigint,
+  nonce: number,
+  now: number = Math.floor(Date.now() / 1000)
+): PermitSingleData {
+  return {
+    details: {
+      token,
+      amount: amount.toString(),
+      expiration: now + PERMIT_EXPIRATION_SECONDS,
+      nonce,
+    },
+    spender: UNISWAP_CONTRACTS.UniversalRouter,
+    sigDeadline: (now + PERMIT_SIG_DEADLINE_SECONDS).toString(),
+  };
+}
+
+/**
+ * EIP-712 typed data for the wallet to sign
+ */
+export function getPermitTypedData(permit: PermitSingleData) {
+  return {
+    domain: { name: "Permit2", chainId: BASE_CHAIN_ID, verifyingContract: UNISWAP_CONTRACTS.Permit2 },
+    types: PERMIT_SINGLE_TYPES,
+    primaryType: "PermitSingle" as const,
+    message: permit,
+  };
+}
+
+export type PermitTypedData = ReturnType<typeof getPermitTypedData>;
+
+function toPermitStruct(permit: PermitSingleData) {
+  return {
+    details: {
+      token: permit.details.token,
+      amount: BigInt(permit.details.amount),
+      expiration: permit.details.expiration,
+      nonce: permit.details.nonce,
+    },
+    spender: permit.spender,
+    sigDeadline: BigInt(permit.sigDeadline),
+  };
+}
+
+/**
+ * Seal a permit for its owner so build-swap only ever redeems permits this service built
+ */
+export function issuePermit(owner: string, permit: PermitSingleData): string {
+  const sealed: SealedPermit = { owner: owner.toLowerCase(), permit };
+  return sealPayload(PERMIT_PURPOSE, sealed);
+}
+
+/**
+ * Open a sealed permit; throws if it was not built here, belongs to another wallet or can no longer be signed
+ */
+export function openPermit(sealed: unknown, owner: string): PermitSingleData {
+  const { owner: permitOwner, permit } = openPayload<SealedPermit>(PERMIT_PURPOSE, sealed, "permit");
+  if (permitOwner !== owner.toLowerCase()) {
+    throw new Error("Permit was built for a different wallet");
+  }
+  if (Number(permit.sigDeadline) <= Math.floor(Date.now() / 1000)) {
+    throw new Error("Permit signature deadline has passed");
+  }
+  return permit;
+}
+
+/**
+ * Check the owner signed the permit (EOA signatures and ERC-1271 smart wallets alike)
+ */
+export function verifyPermitSignature(
+  client: Permit2Client,
+  owner: `0x${string}`,
+  permit: PermitSingleData,
+  signature: `0x${string}`
+): Promise<boolean> {
+  return client.verifyTypedData({
+    address: owner,
+    ...getPermitTypedData(permit),
+    message: toPermitStruct(permit),
+    signature,
+  });
+}
+
+/**
+ * Universal Router calldata for a V3 route paid through Permit2
+ * With a signed permit the router first redeems it (PERMIT2_PERMIT); without one it spends the live allowance
+ */
+export function buildPermit2SwapCalldata(
+  params: SwapBuildParams,
+  signedPermit?: { permit: PermitSingleData; signature: `0x${string}` }
+): SwapBuildResult {
+  const { tradeType, tokens, fees, recipient, amountIn, amountOut, isBuyingETH, deadline } = params;
+
+  const commands: number[] = [];
+  const inputs: `0x${string}`[] = [];
+
+  if (signedPermit) {
+    commands.push(COMMANDS.PERMIT2_PERMIT);
+    inputs.push(
+      encodeAbiParameters(
+        [PERMIT_SINGLE_ABI_PARAMETER, { type: "bytes" }],
+        [toPermitStruct(signedPermit.permit), signedPermit.signature]
+      )
+    );
+  }
+
+  // Native ETH output is swapped to WETH held by the router, then unwrapped to the recipient
+  const swapRecipient = isBuyingETH ? ROUTER_ADDRESS_THIS : recipient;
+  const swapParameters = [
+    { type: "address" },
+    { type: "uint256" },
+    { type: "uint256" },
+    { type: "bytes" },
+    { type: "bool" },
+  ] as const;
+
+  if (tradeType === "exactOutput") {
+    // Exact output paths are encoded from tokenOut back to tokenIn
+    commands.push(COMMANDS.V3_SWAP_EXACT_OUT);
+    inputs.push(
+      encodeAbiParameters(swapParameters, [
+        swapRecipient,
+        amountOut,
+        amountIn,
+        encodeV3Path([...tokens].reverse(), [...fees].reverse()),
+        true,
+      ])
+    );
+  } else {
+    commands.push(COMMANDS.V3_SWAP_EXACT_IN);
+    inputs.push(
+      encodeAbiParameters(swapParameters, [swapRecipient, amountIn, amountOut, encodeV3Path(tokens, fees), true])
+    );
+  }
+
+  if (isBuyingETH) {
+    commands.push(COMMANDS.UNWRAP_WETH);
+    inputs.push(encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [recipient, amountOut]));
+  }
+
+  return {
+    data: encodeFunctionData({
+      abi: UNIVERSAL_ROUTER_ABI,
+      functionName: "execute",
+      args: [`0x${commands.map(command => command.toString(16).padStart(2, "0")).join("")}`, inputs, BigInt(deadline)],
+    }),
+    value: 0n,
+  };
+}
@@ -0,0 +1,138 @@
+// Pool Inspector for Uniswap V3 on Base
+// Resolves route pools through the factory and reads their liquidity, balances, tick state and USD TVL
+
+import { zeroAddress, type PublicClient } from "viem";
+import { TOKENS, TOKEN_REGISTRY, TokenInfo } from "./tokens";
+import {
+  UNISWAP_CONTRACTS,
+  UNISWAP_V3_FACTORY_ABI,
+  UNISWAP_V3_POOL_ABI,
+  ERC20_ABI,
+  sortTokens,
+} from "./uniswap";
+import type { RouteHop } from "./routing";
+import { getTokensPerEth } from "./gas-cost";
+
+// Tokens valued at $1 without an on-chain lookup
+const USD_STABLECOINS = TOKEN_REGISTRY.filter(token => token.risk.stablecoin).map(token => token.address.toLowerCase());
+
+export interface PoolInfo {
+  address: `0x${string}`;
+  fee: number;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  liquidity: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+  tickSpacing: number;
+  balance0: bigint;
+  balance1: bigint;
+  tvlUSD: number | null;
+}
+
+type InspectorClient = Pick<PublicClient, "readContract">;
+
+/**
+ * USD price of a token: stablecoins at $1, everything else through its WETH pool and ETH/USDC
+ */
+export async function getTokenPriceUSD(client: InspectorClient, token: TokenInfo): Promise<number | null> {
+  if (USD_STABLECOINS.includes(token.address.toLowerCase())) return 1;
+
+  const usdcPerEth = await getTokensPerEth(client, TOKENS.USDC);
+  if (usdcPerEth === null) return null;
+  if (token.address.toLowerCase() === TOKENS.WETH.address.toLowerCase()) return usdcPerEth;
+
+  const tokensPerEth = await getTokensPerEth(client, token);
+  return tokensPerEth ? usdcPerEth / tokensPerEth : null;
+}
+
+/**
+ * Resolve a pool via the factory and read its state
+ * Returns null when no pool exists for the pair and fee tier
+ */
+export async function inspectPool(
+  client: InspectorClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number
+): Promise<PoolInfo | null> {
+  const address = await client.readContract({
+    address: UNISWAP_CONTRACTS.UniswapV3Factory,
+    abi: UNISWAP_V3_FACTORY_ABI,
+    functionName: "getPool",
+    args: [tokenA.address, tokenB.address, fee],
+  });
+
+  if (address === zeroAddress) return null;
+
+  const [token0Address] = sortTokens(tokenA.address, tokenB.address);
+  const [token0, token1] = token0Address === tokenA.address ? [tokenA, tokenB] : [tokenB, tokenA];
+
+  const [[sqrtPriceX96, tick], liquidity, tickSpacing, balance0, balance1, price0, price1] = await Promise.all([
+    client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "slot0" }),
+    client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "liquidity" }),
+    client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "tickSpacing" }),
+    client.readContract({ address: token0.address, abi: ERC20_ABI, functionName: "balanceOf", args: [address] }),
+    client.readContract({ address: token1.address, abi: ERC20_ABI, functionName: "balanceOf", args: [address] }),
+    getTokenPriceUSD(client, token0).catch(() => null),
+    getTokenPriceUSD(client, token1).catch(() => null),
+  ]);
+
+  const tvlUSD = price0 !== null && price1 !== null
+    ? (Number(balance0) / 10 ** token0.decimals) * price0 + (Number(balance1) / 10 ** token1.decimals) * price1
+    : null;
+
+  return {
+    address,
+    fee,
+    token0,
+    token1,
+    liquidity,
+    sqrtPriceX96,
+    tick,
+    tickSpacing,
+    balance0,
+    balance1,
+    tvlUSD,
+  };
+}
+
+/**
+ * Inspect every pool on a route
+ * The route's usable liquidity is its shallowest pool's TVL
+ */
+export async function inspectRoutePools(
+  client: InspectorClient,
+  hops: RouteHop[]
+): Promise<{ pools: PoolInfo[]; poolLiquidityUSD: number | null }> {
+  const pools = (
+    await Promise.all(hops.map(hop => inspectPool(client, hop.tokenIn, hop.tokenOut, hop.fee)))
+  ).filter((pool): pool is PoolInfo => pool !== null);
+
+  const tvls = pools.map(pool => pool.tvlUSD);
+  const poolLiquidityUSD = pools.length === hops.length && tvls.every(tvl => tvl !== null)
+    ? Math.min(...(tvls as number[]))
+    : null;
+
+  return { pools, poolLiquidityUSD };
+}
+
+/**
+ * Inspect the pools of a split; the trade draws on all of them, so their TVL adds up
+ */
+export async function inspectSplitPools(
+  client: InspectorClient,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  fees: number[]
+): Promise<{ pools: PoolInfo[]; poolLiquidityUSD: number | null }> {
+  const pools = (
+    await Promise.all(fees.map(fee => inspectPool(client, tokenIn, tokenOut, fee)))
+  ).filter((pool): pool is PoolInfo => pool !== null);
+
+  const poolLiquidityUSD = pools.length === fees.length && pools.every(pool => pool.tvlUSD !== null)
+    ? pools.reduce((sum, pool) => sum + (pool.tvlUSD as number), 0)
+    : null;
+
+  return { pools, poolLiquidityUSD };
+}
@@ -0,0 +1,113 @@
+// Price Impact from Uniswap V3 Pool State
+// Compares the route's mid price (pool slot0) with the quoted execution price and the post-swap price
+
+import type { PublicClient } from "viem";
+import type { RouteHop } from "./routing";
+import type { SplitQuote } from "./split-routing";
+import { UNISWAP_V3_POOL_ABI, computePoolAddress } from "./uniswap";
+
+export interface RoutePrices {
+  // All prices are tokenOut per tokenIn in human units
+  midPrice: number;
+  midPriceAfter: number | null;
+  executionPrice: number;
+  // Percent by which the execution price is worse than the mid price (includes LP fees)
+  priceImpact: number;
+}
+
+type PriceClient = Pick<PublicClient, "readContract">;
+
+const Q96 = 2 ** 96;
+
+/**
+ * Price of one hop (tokenOut per tokenIn, human units) from a pool sqrtPriceX96
+ * sqrtPriceX96 encodes sqrt(token1 / token0) in raw units
+ */
+export function hopPriceFromSqrtPriceX96(hop: RouteHop, sqrtPriceX96: bigint): number {
+  const ratio = Number(sqrtPriceX96) / Q96;
+  const token1PerToken0 = ratio * ratio;
+  const zeroForOne = hop.tokenIn.address.toLowerCase() < hop.tokenOut.address.toLowerCase();
+  const rawPrice = zeroForOne ? token1PerToken0 : 1 / token1PerToken0;
+  return rawPrice * 10 ** (hop.tokenIn.decimals - hop.tokenOut.decimals);
+}
+
+/**
+ * Read the current mid price of every hop's pool and multiply them into a route mid price
+ */
+export async function getRouteMidPrice(client: PriceClient, hops: RouteHop[]): Promise<number> {
+  const sqrtPrices = await Promise.all(
+    hops.map(async hop => {
+      const [sqrtPriceX96] = await client.readContract({
+        address: computePoolAddress(hop.tokenIn.address, hop.tokenOut.address, hop.fee),
+        abi: UNISWAP_V3_POOL_ABI,
+        functionName: "slot0",
+      });
+      return sqrtPriceX96;
+    })
+  );
+
+  return hops.reduce((price, hop, i) => price * hopPriceFromSqrtPriceX96(hop, sqrtPrices[i]), 1);
+}
+
+/**
+ * Mid price, post-swap price, execution price and price impact for a quoted route
+ * sqrtPriceX96AfterList is the per-hop pool price QuoterV2 reports after the swap
+ */
+export async function computeRoutePrices(
+  client: PriceClient,
+  hops: RouteHop[],
+  amountIn: bigint,
+  amountOut: bigint,
+  sqrtPriceX96AfterList: readonly bigint[] = []
+): Promise<RoutePrices> {
+  const midPrice = await getRouteMidPrice(client, hops);
+
+  const tokenIn = hops[0].tokenIn;
+  const tokenOut = hops[hops.length - 1].tokenOut;
+  const executionPrice =
+    (Number(amountOut) / Number(amountIn)) * 10 ** (tokenIn.decimals - tokenOut.decimals);
+
+  const midPriceAfter = sqrtPriceX96AfterList.length === hops.length
+    ? hops.reduce((price, hop, i) => price * hopPriceFromSqrtPriceX96(hop, sqrtPriceX96AfterList[i]), 1)
+    : null;
+
+  return {
+    midPrice,
+    midPriceAfter,
+    executionPrice,
+    priceImpact: Math.max(0, (1 - executionPrice / midPrice) * 100),
+  };
+}
+
+/**
+ * Prices for a split quote: the mid price is the best pool's, the post-swap price the
+ * worst pool's after its leg, and the execution price covers all legs together
+ */
+export async function computeSplitPrices(client: PriceClient, split: SplitQuote): Promise<RoutePrices> {
+  const legPrices = await Promise.all(
+    split.legs.map(leg =>
+      computeRoutePrices(
+        client,
+        [{ tokenIn: split.tokenIn, tokenOut: split.tokenOut, fee: leg.fee }],
+        leg.amountIn,
+        leg.amountOut,
+        [leg.sqrtPriceX96After]
+      )
+    )
+  );
+
+  const midPrice = Math.max(...legPrices.map(prices => prices.midPrice));
+  const afterPrices = legPrices
+    .map(prices => prices.midPriceAfter)
+    .filter((price): price is number => price !== null);
+  const executionPrice =
+    (Number(split.amountOut) / Number(split.amountIn)) *
+    10 ** (split.tokenIn.decimals - split.tokenOut.decimals);
+
+  return {
+    midPrice,
+    midPriceAfter: afterPrices.length > 0 ? Math.min(...afterPrices) : null,
+    executionPrice,
+    priceImpact: Math.max(0, (1 - executionPrice / midPrice) * 100),
+  };
+}
@@ -0,0 +1,98 @@
+// Quote Cache
+// Size-bounded LRU cache with hit/miss metrics, pinned to a single block at a time
+
+export interface QuoteCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  // Times the whole cache was dropped because a new block arrived
+  invalidations: number;
+  size: number;
+  maxEntries: number;
+  blockNumber: string | null;
+}
+
+export interface BlockLRUCache<V> {
+  /** Value for a key at a block; a block newer than the cache's invalidates every entry first */
+  get(key: string, blockNumber: bigint): V | undefined;
+  /** Store a value for a key at a block, evicting the least recently used entry when full */
+  set(key: string, blockNumber: bigint, value: V): void;
+  delete(key: string, blockNumber: bigint): void;
+  clear(): void;
+  stats(): QuoteCacheStats;
+}
+
+/**
+ * LRU cache whose entries are only valid for the block they were computed at
+ * Recency is tracked by Map insertion order: a hit re-inserts the entry at the end
+ */
+export function createBlockLRUCache<V>(maxEntries: number): BlockLRUCache<V> {
+  const entries = new Map<string, V>();
+  let currentBlock: bigint | null = null;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+  let invalidations = 0;
+
+  const entryKey = (key: string, blockNumber: bigint) => `${blockNumber}:${key}`;
+
+  // Entries from older blocks are never served again, so a new block drops them all
+  const advanceTo = (blockNumber: bigint) => {
+    if (currentBlock !== null && blockNumber <= currentBlock) return;
+    if (entries.size > 0) invalidations++;
+    entries.clear();
+    currentBlock = blockNumber;
+  };
+
+  return {
+    get(key, blockNumber) {
+      advanceTo(blockNumber);
+      const id = entryKey(key, blockNumber);
+      const value = entries.get(id);
+      if (value === undefined) {
+        misses++;
+        return undefined;
+      }
+      hits++;
+      entries.delete(id);
+      entries.set(id, value);
+      return value;
+    },
+
+    set(key, blockNumber, value) {
+      advanceTo(blockNumber);
+      // Late results for a block the cache has moved past are dropped
+      if (blockNumber !== currentBlock) return;
+
+      const id = entryKey(key, blockNumber);
+      entries.delete(id);
+      entries.set(id, value);
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        evictions++;
+      }
+    },
+
+    delete(key, blockNumber) {
+      entries.delete(entryKey(key, blockNumber));
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    stats() {
+      return {
+        hits,
+        misses,
+        evictions,
+        invalidations,
+        size: entries.size,
+        maxEntries,
+        blockNumber: currentBlock?.toString() ?? null,
+      };
+    },
+  };
+}
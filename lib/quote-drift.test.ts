@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { computeQuoteDrift, formatQuoteDrift } from './quote-drift';
+
+describe('computeQuoteDrift', () => {
+  const exactInput = { expectedOutput: '1000000', minOutput: '995000' };
+
+  it('tracks the output of exact input quotes', () => {
+    const drift = computeQuoteDrift(exactInput, { expectedOutput: '997000', minOutput: '992015' }, '100');
+    expect(drift.side).toBe('output');
+    expect(drift.changePercent).toBe(-0.3);
+    expect(drift.favorable).toBe(false);
+    expect(drift.exceedsSlippage).toBe(false);
+    expect(formatQuoteDrift(drift)).toBe('output changed −0.30% since quote');
+  });
+
+  it('flags output below the original minimum', () => {
+    const drift = computeQuoteDrift(exactInput, { expectedOutput: '994999', minOutput: '990024' }, '100');
+    expect(drift.exceedsSlippage).toBe(true);
+  });
+
+  it('tracks the input of exact output quotes against the maximum input', () => {
+    const original = {
+      tradeType: 'exactOutput' as const,
+      expectedInput: '2000',
+      maxInput: '2010',
+      expectedOutput: '1000',
+      minOutput: '1000',
+    };
+    const cheaper = computeQuoteDrift(original, { ...original, expectedInput: '1990' }, '100');
+    expect(cheaper.side).toBe('input');
+    expect(cheaper.favorable).toBe(true);
+    expect(cheaper.exceedsSlippage).toBe(false);
+
+    const pricier = computeQuoteDrift(original, { ...original, expectedInput: '2011' }, '100');
+    expect(pricier.favorable).toBe(false);
+    expect(pricier.exceedsSlippage).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+// Quote Drift
+// Compares a live re-quote against the quote the user is acting on
+
+export interface DriftQuote {
+  tradeType?: 'exactInput' | 'exactOutput';
+  expectedInput?: string;
+  maxInput?: string;
+  expectedOutput: string;
+  minOutput: string;
+  priceImpact?: number | null;
+}
+
+export interface QuoteDrift {
+  // Exact input tracks what is received, exact output what is paid
+  side: 'output' | 'input';
+  // Change of the tracked amount since the quote, in percent (negative = less)
+  changePercent: number;
+  // Whether the change is good for the user (more received or less paid)
+  favorable: boolean;
+  // The live quote falls outside the quote's slippage bound, so the swap would revert
+  exceedsSlippage: boolean;
+  latestExpectedOutput: string;
+  latestExpectedInput?: string;
+  latestPriceImpact?: number | null;
+  blockNumber: string;
+}
+
+/**
+ * Drift of a live quote from the original
+ * Execution is unsafe once the live output drops below the original minimum output
+ * (exact input) or the live input rises above the original maximum input (exact output)
+ */
+export function computeQuoteDrift(original: DriftQuote, latest: DriftQuote, blockNumber: string): QuoteDrift {
+  const isExactOutput = original.tradeType === 'exactOutput' && !!original.expectedInput && !!latest.expectedInput;
+
+  const before = BigInt(isExactOutput ? original.expectedInput! : original.expectedOutput);
+  const after = BigInt(isExactOutput ? latest.expectedInput! : latest.expectedOutput);
+  const changeBps = before > 0n ? ((after - before) * 10000n) / before : 0n;
+
+  const exceedsSlippage = isExactOutput
+    ? !!original.maxInput && after > BigInt(original.maxInput)
+    : after < BigInt(original.minOutput);
+
+  return {
+    side: isExactOutput ? 'input' : 'output',
+    changePercent: Number(changeBps) / 100,
+    favorable: isExactOutput ? after <= before : after >= before,
+    exceedsSlippage,
+    latestExpectedOutput: latest.expectedOutput,
+    latestExpectedInput: latest.expectedInput,
+    latestPriceImpact: latest.priceImpact,
+    blockNumber,
+  };
+}
+
+/**
+ * Short label such as "output changed −0.30% since quote"
+ */
+export function formatQuoteDrift(drift: QuoteDrift): string {
+  const sign = drift.changePercent > 0 ? '+' : drift.changePercent < 0 ? '−' : '±';
+  return `${drift.side} changed ${sign}${Math.abs(drift.changePercent).toFixed(2)}% since quote`;
+}
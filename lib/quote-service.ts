@@ -0,0 +1,443 @@
+// Swap Quote Service
+// Quotes a swap across token variants and venues, ranked net of gas, with prices and pool state
+
+import { TOKENS, getTokenVariants, TokenInfo } from "./tokens";
+import { parseUnits, formatUnits } from "viem";
+import { DEFAULT_SLIPPAGE } from "./uniswap";
+import { formatRoute, TradeType, QUOTE_LATENCY_BUDGET_MS } from "./routing";
+import { findBestSplit, isSplitWorthwhile, SplitQuote } from "./split-routing";
+import { computeSplitPrices, RoutePrices } from "./price-impact";
+import { inspectSplitPools } from "./pool-inspector";
+import {
+  VENUE_ADAPTERS,
+  getVenueAdapter,
+  isBetterVenueQuote,
+  venueNetAmount,
+  VenueAdapter,
+  VenueCostFn,
+  VenueHop,
+  VenuePoolState,
+  VenueQuote,
+} from "./venues";
+import { getGasCostModel, estimateSwapGasCost, getTokensPerEth, weiToTokenAmount, SwapGasCost } from "./gas-cost";
+import { getBaseClient } from "./rpc-provider";
+import { getQuoteBlockNumber } from "./local-quoter";
+import { verifyTokenMetadata } from "./token-metadata";
+import { createBlockLRUCache } from "./quote-cache";
+import { toImportedRegistryToken } from "./custom-tokens";
+
+// Distinct intents (pair, amount, trade type, slippage) remembered per block
+const QUOTE_CACHE_MAX_ENTRIES = 500;
+
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  tradeType: TradeType;
+  // Human-readable amount of the fixed side: sold for exact input, bought for exact output
+  amount: string;
+  // Slippage tolerance as a decimal (0.005 = 0.5%)
+  slippage: number;
+  // Tokens the requesting wallet imported itself (verified grants); quoted only for symbols the registry lacks
+  importedTokens?: TokenInfo[];
+}
+
+function findImportedToken(request: QuoteRequest, symbol: string): TokenInfo | undefined {
+  return request.importedTokens?.find(token => token.symbol === symbol.toUpperCase());
+}
+
+/**
+ * Normalize raw request parameters (JSON body or query string) into a quote request
+ * Exact output ("buy exactly 500 USDC") when only amountOut is given; slippage is in percent
+ */
+export function resolveQuoteRequest(params: {
+  tokenIn?: unknown;
+  tokenOut?: unknown;
+  amountIn?: unknown;
+  amountOut?: unknown;
+  slippage?: unknown;
+}): QuoteRequest | { error: string } {
+  const { tokenIn, tokenOut, amountIn, amountOut, slippage } = params;
+
+  if (typeof tokenIn !== "string" || typeof tokenOut !== "string") {
+    return { error: "Provide tokenIn and tokenOut" };
+  }
+
+  const tradeType: TradeType = amountOut && !amountIn ? "exactOutput" : "exactInput";
+  const fixedAmount = tradeType === "exactOutput" ? amountOut : amountIn;
+
+  if (!fixedAmount || Number(fixedAmount) <= 0) {
+    return { error: "Provide a positive amountIn or amountOut" };
+  }
+
+  const slippagePercent = typeof slippage === "string" && slippage !== "" ? Number(slippage) : slippage;
+
+  return {
+    tokenIn,
+    tokenOut,
+    tradeType,
+    amount: String(fixedAmount),
+    slippage:
+      typeof slippagePercent === "number" && Number.isFinite(slippagePercent)
+        ? Math.max(0, Math.min(slippagePercent / 100, 0.5))
+        : DEFAULT_SLIPPAGE,
+  };
+}
+
+/**
+ * Best quote for a swap: every token variant pair on every venue, ranked on net amounts,
+ * plus a fee-tier split when it beats the single route
+ * The response carries no deadline; callers stamp one per response
+ */
+export async function getSwapQuote(request: QuoteRequest) {
+  const { tokenIn, tokenOut, tradeType } = request;
+  const fixedAmount = request.amount;
+  const slippageDecimal = request.slippage;
+
+  const publicClient = getBaseClient();
+
+  // Registry decimals scale every amount, so a variant whose contract disagrees is never quoted
+  const [srcVariants, dstVariants] = await Promise.all(
+    [tokenIn, tokenOut].map(async symbol => {
+      const registryVariants = getTokenVariants(symbol);
+      const imported = registryVariants.length === 0 ? findImportedToken(request, symbol) : undefined;
+      const verified = await verifyTokenMetadata(
+        publicClient,
+        imported ? [toImportedRegistryToken(imported)] : registryVariants
+      );
+      return verified
+        .filter(({ mismatches }) => !mismatches.some(mismatch => mismatch.field === "decimals"))
+        .map(({ token }) => token);
+    })
+  );
+
+  if (!srcVariants.length || !dstVariants.length) {
+    return { status: "invalid-token" as const };
+  }
+
+  // Every quote must come back within the latency budget; the best answer found by then wins
+  const deadlineAt = Date.now() + QUOTE_LATENCY_BUDGET_MS;
+
+  // Gas (L2 execution + L1 data fee) is priced once per request; without it routes rank on gross amounts
+  const gasModelPromise = getGasCostModel(publicClient).catch(error => {
+    console.error('Failed to price gas for quote ranking:', error);
+    return null;
+  });
+
+  // Find the best direct or multi-hop route on every venue for every token variant pair in parallel
+  const venues = VENUE_ADAPTERS.filter(adapter => adapter.supportedTradeTypes.includes(tradeType));
+  const variantQuotes = await Promise.allSettled(
+    srcVariants.flatMap(srcToken =>
+      dstVariants.map(async dstToken => {
+        const isSrcETH = srcToken.symbol === "ETH";
+        const isDstETH = dstToken.symbol === "ETH";
+
+        const poolTokenIn = isSrcETH ? TOKENS.WETH : srcToken;
+        const poolTokenOut = isDstETH ? TOKENS.WETH : dstToken;
+
+        // The fixed side of the trade: input for exact input, output for exact output
+        const amountWei = tradeType === 'exactOutput'
+          ? parseUnits(fixedAmount.toString(), isDstETH ? 18 : dstToken.decimals)
+          : parseUnits(fixedAmount.toString(), isSrcETH ? 18 : srcToken.decimals);
+
+        // Gas is converted into the token being optimized: output for exact input, input for exact output
+        const costToken = tradeType === 'exactOutput' ? poolTokenIn : poolTokenOut;
+        const [gasModel, tokensPerEth] = await Promise.all([
+          gasModelPromise,
+          getTokensPerEth(publicClient, costToken).catch(() => null),
+        ]);
+        const gasCostOf = (gasEstimate: bigint, shape: { hops: number } | { legs: number }) =>
+          gasModel ? estimateSwapGasCost(gasModel, gasEstimate, shape) : null;
+        const costOf: VenueCostFn | undefined = gasModel && tokensPerEth
+          ? (gasEstimate, hops) => weiToTokenAmount(
+              estimateSwapGasCost(gasModel, gasEstimate, { hops }).totalWei,
+              tokensPerEth,
+              costToken.decimals
+            )
+          : undefined;
+
+        // Each venue returns its own best route; a failing venue just drops out
+        const venueQuotes = await Promise.all(
+          venues.map(adapter =>
+            adapter
+              .quote(publicClient, poolTokenIn, poolTokenOut, amountWei, tradeType, { deadlineAt, costOf })
+              .catch(error => {
+                console.error(`${adapter.name} quote failed:`, error);
+                return null;
+              })
+          )
+        );
+
+        let route: VenueQuote | null = null;
+        for (const quote of venueQuotes) {
+          if (quote && isBetterVenueQuote(quote, route, costOf)) route = quote;
+        }
+
+        return route
+          ? {
+              route,
+              adapter: getVenueAdapter(route.venue) as VenueAdapter,
+              tokenIn: srcToken,
+              poolTokenIn,
+              tokenOut: dstToken,
+              poolTokenOut,
+              amountWei,
+              costToken,
+              tokensPerEth,
+              gasCostOf,
+              costOf,
+            }
+          : null;
+      })
+    )
+  );
+
+  let bestQuote: {
+    route: VenueQuote;
+    adapter: VenueAdapter;
+    tokenIn: TokenInfo;
+    poolTokenIn: TokenInfo;
+    tokenOut: TokenInfo;
+    poolTokenOut: TokenInfo;
+    amountWei: bigint;
+    costToken: TokenInfo;
+    tokensPerEth: number | null;
+    gasCostOf: (gasEstimate: bigint, shape: { hops: number } | { legs: number }) => SwapGasCost | null;
+    costOf?: VenueCostFn;
+  } | null = null;
+
+  // Variant pairs are ranked on net amounts, each with its own gas conversion
+  for (const result of variantQuotes) {
+    if (result.status !== 'fulfilled' || !result.value) continue;
+    const candidate = result.value;
+    if (!bestQuote) {
+      bestQuote = candidate;
+      continue;
+    }
+    const candidateNet = venueNetAmount(candidate.route, candidate.costOf);
+    const bestNet = venueNetAmount(bestQuote.route, bestQuote.costOf);
+    if (tradeType === 'exactOutput' ? candidateNet < bestNet : candidateNet > bestNet) {
+      bestQuote = candidate;
+    }
+  }
+
+  if (!bestQuote) {
+    return { status: "no-liquidity" as const };
+  }
+
+  // Exact input trades may do better split across the direct pools of several V3 fee tiers
+  let split: SplitQuote | null = null;
+  if (tradeType === 'exactInput' && bestQuote.adapter.id === 'uniswap-v3') {
+    const candidate = await findBestSplit(
+      publicClient,
+      bestQuote.poolTokenIn,
+      bestQuote.poolTokenOut,
+      bestQuote.amountWei,
+      deadlineAt
+    );
+    if (candidate) {
+      const splitGas = bestQuote.gasCostOf(candidate.gasEstimate, { legs: candidate.legs.length });
+      const splitNetOut = splitGas && bestQuote.tokensPerEth
+        ? candidate.amountOut -
+          weiToTokenAmount(splitGas.totalWei, bestQuote.tokensPerEth, bestQuote.costToken.decimals)
+        : candidate.amountOut;
+      if (isSplitWorthwhile(splitNetOut, venueNetAmount(bestQuote.route, bestQuote.costOf))) {
+        split = candidate;
+      }
+    }
+  }
+
+  // Gross vs net: what the swap itself returns and what is left once gas is paid
+  const gasCost = split
+    ? bestQuote.gasCostOf(split.gasEstimate, { legs: split.legs.length })
+    : bestQuote.gasCostOf(bestQuote.route.gasEstimate, { hops: bestQuote.route.hops.length });
+  const gasCostInToken = gasCost && bestQuote.tokensPerEth
+    ? weiToTokenAmount(gasCost.totalWei, bestQuote.tokensPerEth, bestQuote.costToken.decimals)
+    : null;
+
+  const applySlippage = (amount: bigint) =>
+    (amount * BigInt(Math.floor((1 - slippageDecimal) * 10000))) / 10000n;
+
+  const expectedAmountOut = split ? split.amountOut : bestQuote.route.amountOut;
+
+  // Slippage bounds: exact input protects the output, exact output caps the input
+  // Split legs each get their own minimum, so the overall minimum is their sum
+  const minAmountOut = tradeType === 'exactOutput'
+    ? bestQuote.route.amountOut
+    : split
+      ? split.legs.reduce((sum, leg) => sum + applySlippage(leg.amountOut), 0n)
+      : applySlippage(bestQuote.route.amountOut);
+  const maxAmountIn = tradeType === 'exactOutput'
+    ? (bestQuote.route.amountIn * BigInt(Math.floor((1 + slippageDecimal) * 10000)) + 9999n) /
+      10000n
+    : bestQuote.route.amountIn;
+
+  const amountInHuman = Number(formatUnits(bestQuote.route.amountIn, bestQuote.poolTokenIn.decimals));
+
+  // Calculate actual execution price
+  const actualPrice =
+    Number(formatUnits(expectedAmountOut, bestQuote.poolTokenOut.decimals)) /
+    amountInHuman;
+
+  // Price impact from pool state (mid price vs the quoted execution price)
+  // and pool TVL for the liquidity risk factor, read in parallel
+  const { adapter, route: quotedRoute } = bestQuote;
+  const poolInspection: Promise<{ pools: VenuePoolState[]; poolLiquidityUSD: number | null }> = split
+    ? inspectSplitPools(publicClient, split.tokenIn, split.tokenOut, split.legs.map(leg => leg.fee))
+    : adapter.inspectPools(publicClient, quotedRoute.hops);
+  const [prices, poolState] = await Promise.all([
+    (split
+      ? computeSplitPrices(publicClient, split)
+      : adapter.computePrices(publicClient, quotedRoute)
+    ).catch((error): RoutePrices | null => {
+      console.error('Failed to read pool prices for price impact:', error);
+      return null;
+    }),
+    poolInspection.catch((error): { pools: VenuePoolState[]; poolLiquidityUSD: number | null } => {
+      console.error('Failed to inspect route pools:', error);
+      return { pools: [], poolLiquidityUSD: null };
+    }),
+  ]);
+
+  // A split is reported as the direct hop of its largest leg plus the per-leg breakdown
+  const hops: VenueHop[] = split
+    ? [{ tokenIn: split.tokenIn, tokenOut: split.tokenOut, fee: split.legs[0].fee }]
+    : bestQuote.route.hops;
+
+  const responseData = {
+    tradeType,
+    venue: adapter.id,
+    venueName: adapter.name,
+    router: adapter.router,
+    spender: adapter.spender,
+    expectedInput: bestQuote.route.amountIn.toString(),
+    maxInput: maxAmountIn.toString(),
+    expectedOutput: expectedAmountOut.toString(),
+    minOutput: minAmountOut.toString(),
+    netOutput: tradeType === 'exactInput' && gasCostInToken !== null
+      ? (expectedAmountOut - gasCostInToken).toString()
+      : null,
+    netInput: tradeType === 'exactOutput' && gasCostInToken !== null
+      ? (bestQuote.route.amountIn + gasCostInToken).toString()
+      : null,
+    gasCost: gasCost
+      ? {
+          l2FeeWei: gasCost.l2FeeWei.toString(),
+          l1FeeWei: gasCost.l1FeeWei.toString(),
+          totalWei: gasCost.totalWei.toString(),
+          inToken: gasCostInToken?.toString() ?? null,
+          token: bestQuote.costToken.symbol,
+        }
+      : null,
+    estimatedGas: (split ? split.gasEstimate : bestQuote.route.gasEstimate).toString(),
+    feeTier: hops[0].fee ?? null,
+    route: formatRoute(hops, bestQuote.tokenIn.symbol, bestQuote.tokenOut.symbol),
+    hops: hops.map(hop => ({
+      tokenIn: hop.tokenIn.symbol,
+      tokenOut: hop.tokenOut.symbol,
+      fee: hop.fee,
+      stable: hop.stable,
+    })),
+    path: split ? null : bestQuote.route.path ?? null,
+    split: split
+      ? {
+          legs: split.legs.map(leg => ({
+            fee: leg.fee,
+            percent: leg.percent,
+            amountIn: leg.amountIn.toString(),
+            expectedOutput: leg.amountOut.toString(),
+            minOutput: applySlippage(leg.amountOut).toString(),
+          })),
+        }
+      : null,
+    price: actualPrice,
+    midPrice: prices?.midPrice ?? null,
+    midPriceAfter: prices?.midPriceAfter ?? null,
+    executionPrice: prices?.executionPrice ?? actualPrice,
+    priceImpact: prices?.priceImpact ?? null,
+    poolLiquidityUSD: poolState.poolLiquidityUSD,
+    pools: poolState.pools.map(pool => ({
+      address: pool.address,
+      fee: pool.fee,
+      stable: pool.stable,
+      token0: pool.token0.symbol,
+      token1: pool.token1.symbol,
+      liquidity: pool.liquidity?.toString() ?? null,
+      tick: pool.tick,
+      tickSpacing: pool.tickSpacing,
+      balance0: pool.balance0.toString(),
+      balance1: pool.balance1.toString(),
+      tvlUSD: pool.tvlUSD,
+    })),
+    tokenIn: {
+      symbol: bestQuote.tokenIn.symbol,
+      address: bestQuote.tokenIn.address,
+      decimals: bestQuote.tokenIn.decimals,
+      poolAddress: bestQuote.poolTokenIn.address,
+      poolDecimals: bestQuote.poolTokenIn.decimals,
+    },
+    tokenOut: {
+      symbol: bestQuote.tokenOut.symbol,
+      address: bestQuote.tokenOut.address,
+      decimals: bestQuote.tokenOut.decimals,
+      poolAddress: bestQuote.poolTokenOut.address,
+      poolDecimals: bestQuote.poolTokenOut.decimals,
+    },
+  };
+
+  return { status: "quoted" as const, quote: responseData };
+}
+
+export type SwapQuote = Extract<Awaited<ReturnType<typeof getSwapQuote>>, { status: "quoted" }>["quote"];
+
+type SwapQuoteResult = Awaited<ReturnType<typeof getSwapQuote>>;
+
+// Shared by every quote caller (UI, ACP, copilot, quote stream); in-flight quotes are shared too
+const quoteCache = createBlockLRUCache<Promise<SwapQuoteResult>>(QUOTE_CACHE_MAX_ENTRIES);
+
+// Imported symbols are per wallet (two wallets may import different tokens as PEPE), so their addresses are part of the key
+function quoteCacheKey(request: QuoteRequest): string {
+  return [
+    findImportedToken(request, request.tokenIn)?.address.toLowerCase() ?? request.tokenIn.toUpperCase(),
+    findImportedToken(request, request.tokenOut)?.address.toLowerCase() ?? request.tokenOut.toUpperCase(),
+    request.tradeType,
+    request.amount,
+    request.slippage,
+  ].join("-");
+}
+
+/**
+ * getSwapQuote, cached for the current block: a new block invalidates every cached answer,
+ * so a cached quote is never older than the chain head
+ * Quotes fall through uncached when the block number cannot be read
+ */
+export async function getCachedSwapQuote(
+  request: QuoteRequest
+): Promise<{ result: SwapQuoteResult; blockNumber: bigint | null; cacheHit: boolean }> {
+  const blockNumber = await getQuoteBlockNumber(getBaseClient()).catch(error => {
+    console.error('Failed to read block number for the quote cache:', error);
+    return null;
+  });
+  if (blockNumber === null) {
+    return { result: await getSwapQuote(request), blockNumber, cacheHit: false };
+  }
+
+  const key = quoteCacheKey(request);
+  const cached = quoteCache.get(key, blockNumber);
+  if (cached) {
+    return { result: await cached, blockNumber, cacheHit: true };
+  }
+
+  const pending = getSwapQuote(request);
+  quoteCache.set(key, blockNumber, pending);
+  // Failures are not cached; the next caller retries
+  pending.catch(() => quoteCache.delete(key, blockNumber));
+
+  return { result: await pending, blockNumber, cacheHit: false };
+}
+
+/**
+ * Hit/miss metrics of the shared quote cache
+ */
+export function getQuoteCacheStats() {
+  return quoteCache.stats();
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { issueQuoteTicket, verifyQuoteTicket, verifyQuoteTicketFor } from "./quote-ticket";
+import { sealPayload } from "./signed-payload";
+import type { SwapQuote } from "./quote-service";
+
+const WALLET = "0x52908400098527886E0F7030069857D2E4169EE7";
+const OTHER_WALLET = "0x2222222222222222222222222222222222222222";
+
+const quote = {
+  venue: "uniswap-v3",
+  tradeType: "exactInput",
+  tokenIn: { symbol: "WETH" },
+  tokenOut: { symbol: "USDC" },
+  hops: [{ tokenIn: "WETH", tokenOut: "USDC", fee: 500 }],
+  split: null,
+  expectedInput: "1000000000000000000",
+  expectedOutput: "3000000000",
+  minOutput: "2985000000",
+  maxInput: "1000000000000000000",
+} as unknown as SwapQuote;
+
+describe("quote tickets", () => {
+  beforeEach(() => {
+    vi.stubEnv("QUOTE_TICKET_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("carries the quoted route and bounds", () => {
+    const { quoteId, quoteTicket } = issueQuoteTicket(quote, { slippage: 0.005, deadline: 1_900_000_000, recipient: WALLET });
+    const ticket = verifyQuoteTicket(quoteTicket);
+    expect(ticket.id).toBe(quoteId);
+    expect(ticket.hops).toEqual([{ tokenIn: "WETH", tokenOut: "USDC", fee: 500, stable: undefined }]);
+    expect(ticket.minOutput).toBe("2985000000");
+    expect(ticket.expiresAt).toBe(1_900_000_000);
+  });
+
+  it("binds the ticket to the wallet it was quoted for", () => {
+    const { quoteTicket } = issueQuoteTicket(quote, { slippage: 0.005, deadline: 1_900_000_000, recipient: WALLET });
+    expect(verifyQuoteTicketFor(quoteTicket, WALLET).recipient).toBe(WALLET.toLowerCase());
+    expect(() => verifyQuoteTicketFor(quoteTicket, OTHER_WALLET)).toThrow("different wallet");
+  });
+
+  it("never redeems a ticket quoted without a wallet", () => {
+    const { quoteTicket } = issueQuoteTicket(quote, { slippage: 0.005, deadline: 1_900_000_000 });
+    expect(verifyQuoteTicket(quoteTicket).recipient).toBeNull();
+    expect(() => verifyQuoteTicketFor(quoteTicket, WALLET)).toThrow("not bound to a wallet");
+  });
+
+  it("rejects payloads signed for another purpose", () => {
+    const grant = sealPayload("token-import", { recipient: WALLET });
+    expect(() => verifyQuoteTicket(grant)).toThrow("Invalid quote ticket signature");
+  });
+});
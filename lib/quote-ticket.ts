@@ -0,0 +1,98 @@
+// Quote Tickets
+// HMAC-signed, expiring record of a quote that build-swap builds from instead of client-supplied route and amounts
+
+import { randomUUID } from "crypto";
+import type { TradeType } from "./routing";
+import type { VenueId } from "./venues";
+import type { RouteHopDescriptor, SplitLegDescriptor } from "./security";
+import type { SwapQuote } from "./quote-service";
+import type { TokenInfo } from "./tokens";
+import { openPayload, sealPayload } from "./signed-payload";
+
+export interface QuoteTicket {
+  id: string;
+  venue: VenueId;
+  tradeType: TradeType;
+  // Symbols as quoted (native ETH stays ETH)
+  tokenIn: string;
+  tokenOut: string;
+  hops: RouteHopDescriptor[];
+  split: SplitLegDescriptor[] | null;
+  // Raw units. Exact input: amountIn is sold. Exact output: amountOut is bought
+  amountIn: string;
+  amountOut: string;
+  // Slippage bounds the built swap may not loosen
+  minOutput: string;
+  maxInput: string;
+  // Slippage tolerance as a decimal (0.005 = 0.5%)
+  slippage: number;
+  // Only this address may build the swap (null when the quote was requested without one)
+  recipient: string | null;
+  // Wallet-imported tokens the route trades, trusted by build-swap for this ticket only
+  importedTokens: TokenInfo[];
+  issuedAt: number;
+  // Unix seconds; also the swap deadline
+  expiresAt: number;
+}
+
+const QUOTE_TICKET_PURPOSE = "quote-ticket";
+
+/**
+ * Sign a ticket for a quote about to be returned to a client
+ */
+export function issueQuoteTicket(
+  quote: SwapQuote,
+  options: { slippage: number; deadline: number; recipient?: string | null; importedTokens?: TokenInfo[] }
+): { quoteId: string; quoteTicket: string } {
+  const ticket: QuoteTicket = {
+    id: randomUUID(),
+    venue: quote.venue,
+    tradeType: quote.tradeType,
+    tokenIn: quote.tokenIn.symbol,
+    tokenOut: quote.tokenOut.symbol,
+    hops: quote.hops.map(hop => ({
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      fee: hop.fee,
+      stable: hop.stable,
+    })),
+    split: quote.split
+      ? quote.split.legs.map(leg => ({ fee: leg.fee, amountIn: leg.amountIn, minOutput: leg.minOutput }))
+      : null,
+    amountIn: quote.expectedInput,
+    amountOut: quote.expectedOutput,
+    minOutput: quote.minOutput,
+    maxInput: quote.maxInput,
+    slippage: options.slippage,
+    recipient: options.recipient ? options.recipient.toLowerCase() : null,
+    importedTokens: (options.importedTokens ?? []).filter(token =>
+      [quote.tokenIn.symbol, quote.tokenOut.symbol].includes(token.symbol)
+    ),
+    issuedAt: Math.floor(Date.now() / 1000),
+    expiresAt: options.deadline,
+  };
+
+  return { quoteId: ticket.id, quoteTicket: sealPayload(QUOTE_TICKET_PURPOSE, ticket) };
+}
+
+/**
+ * Check a ticket's signature and return its contents; throws if it was not issued by this service
+ * Expiry is left to the caller, which compares expiresAt like any other swap deadline
+ */
+export function verifyQuoteTicket(quoteTicket: unknown): QuoteTicket {
+  return openPayload<QuoteTicket>(QUOTE_TICKET_PURPOSE, quoteTicket, "quote ticket");
+}
+
+/**
+ * Verify a ticket for the wallet building from it; tickets quoted without a wallet are never redeemable
+ */
+export function verifyQuoteTicketFor(quoteTicket: unknown, wallet: string): QuoteTicket {
+  const ticket = verifyQuoteTicket(quoteTicket);
+  if (!ticket.recipient) {
+    throw new Error("Quote ticket is not bound to a wallet. Fetch a new quote with your wallet connected");
+  }
+  if (ticket.recipient !== wallet.toLowerCase()) {
+    throw new Error("Quote ticket was issued for a different wallet");
+  }
+  return ticket;
+}
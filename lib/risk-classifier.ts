@@ -2,6 +2,7 @@
 // Analyzes swap parameters and market conditions to assess risk
 
 import { RISK_PATTERNS, RiskPattern } from './training-data';
+import type { TokenSafetyReport } from './token-safety';
 
 export interface SwapRiskAssessment {
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
@@ -27,6 +28,7 @@ export interface SwapParameters {
   gasEstimateUSD?: number;
   marketVolatility?: number; // 24h price change %
   poolLiquidityUSD?: number;
+  tokenSafety?: TokenSafetyReport[]; // Scans of the non-core tokens in the swap
 }
 
 /**
@@ -86,6 +88,15 @@ export function assessSwapRisk(params: SwapParameters): SwapRiskAssessment {
     }
   }
 
+  // Factor 7: Token safety (transfer taxes, sell blocks, upgradeability, blacklists)
+  for (const report of params.tokenSafety ?? []) {
+    const tokenRisk = assessTokenSafety(report);
+    if (tokenRisk) {
+      factors.push(tokenRisk);
+      totalScore += tokenRisk.weight;
+    }
+  }
+
   // Determine overall risk level
   const riskLevel = getRiskLevel(totalScore);
 
@@ -266,6 +277,60 @@ function assessGasCost(gasUSD: number, tradeAmountUSD: number): RiskFactor | nul
   return null;
 }
 
+/**
+ * The most serious finding of a token safety scan as a risk factor (null for a clean, verified token)
+ */
+export function assessTokenSafety(report: TokenSafetyReport): RiskFactor | null {
+  const { symbol } = report;
+  // Tokens from reviewed lists get the benefit of the doubt on admin powers, not on taxes or sell blocks
+  const unverified = report.trust !== 'verified';
+
+  if (report.honeypot) {
+    return {
+      name: 'Honeypot token',
+      severity: 'critical',
+      description: `${symbol} can be bought but selling it reverts`,
+      weight: 70,
+    };
+  }
+  if (report.feeOnTransfer) {
+    const tax = Math.max(report.buyTaxPercent ?? 0, report.transferTaxPercent ?? 0);
+    return {
+      name: 'Transfer tax token',
+      severity: tax > 10 ? 'critical' : 'high',
+      description: `${symbol} takes a ${tax.toFixed(2)}% fee on transfers; swaps may revert or return less than quoted`,
+      weight: tax > 10 ? 50 : 30,
+    };
+  }
+  if (report.blacklist && report.owner) {
+    return {
+      name: 'Blacklist-capable token',
+      severity: unverified ? 'medium' : 'low',
+      description: `${symbol}'s owner can block addresses from transferring`,
+      weight: unverified ? 15 : 5,
+    };
+  }
+  if (report.upgradeable) {
+    return {
+      name: 'Upgradeable token contract',
+      severity: unverified ? 'medium' : 'low',
+      description: `${symbol} is a proxy whose logic can be replaced`,
+      weight: unverified ? 15 : 5,
+    };
+  }
+  if (unverified) {
+    return {
+      name: 'Unverified token',
+      severity: report.simulated ? 'medium' : 'high',
+      description: report.simulated
+        ? `${symbol} is not on a reviewed token list`
+        : `${symbol} is not on a reviewed token list and could not be test-traded`,
+      weight: report.simulated ? 15 : 25,
+    };
+  }
+  return null;
+}
+
 function getRiskLevel(score: number): 'low' | 'medium' | 'high' | 'critical' {
   if (score >= 70) return 'critical';
   if (score >= 40) return 'high';
@@ -0,0 +1,405 @@
+// Route Finder for Uniswap V3 on Base
+// Enumerates direct and multi-hop paths and quotes them via QuoterV2 (exact input or exact output)
+
+import type { PublicClient } from "viem";
+import { TOKENS, TokenInfo } from "./tokens";
+import { UNISWAP_CONTRACTS, QUOTER_V2_ABI, FEE_TIERS, encodeV3Path } from "./uniswap";
+import { getPoolState, getQuoteBlockNumber, quoteRouteLocally, LocalQuoteResult } from "./local-quoter";
+
+// Tokens a route may pass through when there is no (good) direct pool
+export const INTERMEDIATE_TOKENS: TokenInfo[] = [TOKENS.WETH, TOKENS.USDC, TOKENS.USDBC];
+
+// Fee tiers considered for every hop (0.01% is where stablecoin pairs like USDC/USDbC trade)
+export const ROUTE_FEE_TIERS: number[] = [FEE_TIERS.LOWEST, FEE_TIERS.LOW, FEE_TIERS.MEDIUM, FEE_TIERS.HIGH];
+
+// A fee tier is only routed through when its in-range liquidity is at least this share (bps) of the
+// deepest tier for the same pair; liquidity is only comparable between pools of the same two tokens
+export const MIN_LIQUIDITY_SHARE_BPS = 100n;
+
+// How long a quote request may spend waiting on the quoter before answering with what it has
+export const QUOTE_LATENCY_BUDGET_MS = 2500;
+
+// Confirming locally ranked winners with QuoterV2 gets its own budget once the candidate fan-out is done,
+// and tries at most this many of them, best first
+export const CONFIRM_LATENCY_BUDGET_MS = 1500;
+export const MAX_CONFIRM_CANDIDATES = 3;
+
+export interface RouteHop {
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  fee: number;
+}
+
+// exactInput: amountIn is fixed, output is quoted; exactOutput: amountOut is fixed, input is quoted
+export type TradeType = "exactInput" | "exactOutput";
+
+export interface QuotedRoute {
+  hops: RouteHop[];
+  path: `0x${string}`;
+  tradeType: TradeType;
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  sqrtPriceX96AfterList: readonly bigint[];
+}
+
+type QuoteClient = Pick<PublicClient, "readContract" | "getBlockNumber">;
+
+function isSameToken(a: TokenInfo, b: TokenInfo): boolean {
+  return a.address.toLowerCase() === b.address.toLowerCase();
+}
+
+/**
+ * Enumerate token paths between two pool tokens: direct, 2-hop and 3-hop
+ * through INTERMEDIATE_TOKENS (never revisiting a token)
+ */
+export function enumerateTokenPaths(tokenIn: TokenInfo, tokenOut: TokenInfo): TokenInfo[][] {
+  if (isSameToken(tokenIn, tokenOut)) return [];
+
+  const intermediates = INTERMEDIATE_TOKENS.filter(
+    token => !isSameToken(token, tokenIn) && !isSameToken(token, tokenOut)
+  );
+
+  const paths: TokenInfo[][] = [[tokenIn, tokenOut]];
+
+  for (const mid of intermediates) {
+    paths.push([tokenIn, mid, tokenOut]);
+  }
+
+  for (const first of intermediates) {
+    for (const second of intermediates) {
+      if (isSameToken(first, second)) continue;
+      paths.push([tokenIn, first, second, tokenOut]);
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Expand a token path into routes across the fee tiers each hop may use
+ */
+function expandTokenPath(tokens: TokenInfo[], feesForHop: (tokenA: TokenInfo, tokenB: TokenInfo) => number[]): RouteHop[][] {
+  let partial: RouteHop[][] = [[]];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const next: RouteHop[][] = [];
+    for (const hops of partial) {
+      for (const fee of feesForHop(tokens[i], tokens[i + 1])) {
+        next.push([...hops, { tokenIn: tokens[i], tokenOut: tokens[i + 1], fee }]);
+      }
+    }
+    partial = next;
+  }
+  return partial;
+}
+
+/**
+ * Expand every token path into candidate routes across all fee tier combinations
+ */
+export function enumerateRoutes(
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  feeTiers: number[] = ROUTE_FEE_TIERS
+): RouteHop[][] {
+  return enumerateTokenPaths(tokenIn, tokenOut).flatMap(tokens => expandTokenPath(tokens, () => feeTiers));
+}
+
+function pairKey(tokenA: TokenInfo, tokenB: TokenInfo): string {
+  return [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()].sort().join("-");
+}
+
+/**
+ * Fee tiers worth routing through for a pair at a block: the pool exists, has in-range liquidity,
+ * and holds at least MIN_LIQUIDITY_SHARE_BPS of the deepest tier's
+ */
+async function findLiveFeeTiers(
+  client: QuoteClient,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  blockNumber: bigint,
+  feeTiers: number[]
+): Promise<number[]> {
+  const states = await Promise.all(
+    feeTiers.map(fee => getPoolState(client, tokenA, tokenB, fee, blockNumber).catch(() => null))
+  );
+  const deepest = states.reduce((max, state) => (state && state.liquidity > max ? state.liquidity : max), 0n);
+  if (deepest === 0n) return [];
+
+  return feeTiers.filter((_, i) => {
+    const liquidity = states[i]?.liquidity ?? 0n;
+    return liquidity > 0n && liquidity * 10_000n >= deepest * MIN_LIQUIDITY_SHARE_BPS;
+  });
+}
+
+/**
+ * Candidate routes over live pools only: every pair a path touches is checked once, and 2-hop and
+ * 3-hop routes are only built from the fee tiers that passed, so a pair with no pools prunes every
+ * path through it
+ */
+export async function enumerateLiveRoutes(
+  client: QuoteClient,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  blockNumber: bigint,
+  feeTiers: number[] = ROUTE_FEE_TIERS
+): Promise<RouteHop[][]> {
+  const paths = enumerateTokenPaths(tokenIn, tokenOut);
+
+  const pairs = new Map<string, [TokenInfo, TokenInfo]>();
+  for (const tokens of paths) {
+    for (let i = 0; i < tokens.length - 1; i++) {
+      pairs.set(pairKey(tokens[i], tokens[i + 1]), [tokens[i], tokens[i + 1]]);
+    }
+  }
+
+  const liveFees = new Map<string, number[]>();
+  await Promise.all(
+    Array.from(pairs, async ([key, [tokenA, tokenB]]) => {
+      liveFees.set(key, await findLiveFeeTiers(client, tokenA, tokenB, blockNumber, feeTiers));
+    })
+  );
+
+  return paths.flatMap(tokens =>
+    expandTokenPath(tokens, (tokenA, tokenB) => liveFees.get(pairKey(tokenA, tokenB)) ?? [])
+  );
+}
+
+/**
+ * Encode a route into the packed path expected by the quoter and router
+ * Exact output paths are encoded in reverse (tokenOut first)
+ */
+export function encodeRoutePath(hops: RouteHop[], tradeType: TradeType = "exactInput"): `0x${string}` {
+  const tokens = [hops[0].tokenIn.address, ...hops.map(hop => hop.tokenOut.address)];
+  const fees = hops.map(hop => hop.fee);
+
+  if (tradeType === "exactOutput") {
+    return encodeV3Path(tokens.reverse(), fees.reverse());
+  }
+  return encodeV3Path(tokens, fees);
+}
+
+// Gas cost of executing a route, in raw units of the token being optimized
+// (tokenOut for exact input, tokenIn for exact output)
+export type RouteCostFn = (route: QuotedRoute) => bigint;
+
+/**
+ * Amount being optimized after gas: output minus gas for exact input,
+ * input plus gas for exact output (gross amounts when no cost function is given)
+ */
+export function netAmount(route: QuotedRoute, costOf?: RouteCostFn): bigint {
+  const cost = costOf ? costOf(route) : 0n;
+  return route.tradeType === "exactOutput" ? route.amountIn + cost : route.amountOut - cost;
+}
+
+/**
+ * Whether quote a is better than quote b for the trade type after gas:
+ * more net output for exact input, less net input for exact output
+ */
+export function isBetterQuote(a: QuotedRoute, b: QuotedRoute | null, costOf?: RouteCostFn): boolean {
+  if (!b) return true;
+  const netA = netAmount(a, costOf);
+  const netB = netAmount(b, costOf);
+  return a.tradeType === "exactOutput" ? netA < netB : netA > netB;
+}
+
+/**
+ * Human-readable route, e.g. "ETH → USDC → USDBC"
+ * Endpoint symbols can be overridden so native ETH is shown instead of WETH
+ */
+export function formatRoute(hops: Pick<RouteHop, "tokenIn" | "tokenOut">[], srcSymbol?: string, dstSymbol?: string): string {
+  const symbols = [hops[0].tokenIn.symbol, ...hops.map(hop => hop.tokenOut.symbol)];
+  if (srcSymbol) symbols[0] = srcSymbol;
+  if (dstSymbol) symbols[symbols.length - 1] = dstSymbol;
+  return symbols.join(" → ");
+}
+
+/**
+ * Resolve with the promise's value, or null once the budget deadline (epoch ms) passes
+ */
+export async function withinBudget<T>(promise: Promise<T>, deadlineAt: number): Promise<T | null> {
+  const remaining = deadlineAt - Date.now();
+  if (remaining <= 0) return null;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), remaining);
+  });
+
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Quote a single route with QuoterV2
+ * Exact input uses quoteExactInput; exact output uses quoteExactOutputSingle for
+ * direct pools and quoteExactOutput for multi-hop paths
+ * Returns null when the route has no liquidity (quoter reverts) after retries; a missing pool is the
+ * normal case for most candidates, so nothing is logged here
+ */
+export async function quoteRoute(
+  client: QuoteClient,
+  hops: RouteHop[],
+  amount: bigint,
+  tradeType: TradeType = "exactInput",
+  maxRetries = 2
+): Promise<QuotedRoute | null> {
+  const path = encodeRoutePath(hops, tradeType);
+  let retries = 0;
+
+  while (retries <= maxRetries) {
+    try {
+      if (tradeType === "exactInput") {
+        const [amountOut, sqrtPriceX96AfterList, , gasEstimate] = await client.readContract({
+          address: UNISWAP_CONTRACTS.QuoterV2 as `0x${string}`,
+          abi: QUOTER_V2_ABI,
+          functionName: "quoteExactInput",
+          args: [path, amount],
+        }) as readonly [bigint, readonly bigint[], readonly number[], bigint];
+
+        return { hops, path, tradeType, amountIn: amount, amountOut, gasEstimate, sqrtPriceX96AfterList };
+      }
+
+      if (hops.length === 1) {
+        const [amountIn, sqrtPriceX96After, , gasEstimate] = await client.readContract({
+          address: UNISWAP_CONTRACTS.QuoterV2 as `0x${string}`,
+          abi: QUOTER_V2_ABI,
+          functionName: "quoteExactOutputSingle",
+          args: [
+            {
+              tokenIn: hops[0].tokenIn.address,
+              tokenOut: hops[0].tokenOut.address,
+              amount,
+              fee: hops[0].fee,
+              sqrtPriceLimitX96: 0n,
+            },
+          ],
+        }) as readonly [bigint, bigint, number, bigint];
+
+        return {
+          hops,
+          path,
+          tradeType,
+          amountIn,
+          amountOut: amount,
+          gasEstimate,
+          sqrtPriceX96AfterList: [sqrtPriceX96After],
+        };
+      }
+
+      const [amountIn, reversedSqrtPrices, , gasEstimate] = await client.readContract({
+        address: UNISWAP_CONTRACTS.QuoterV2 as `0x${string}`,
+        abi: QUOTER_V2_ABI,
+        functionName: "quoteExactOutput",
+        args: [path, amount],
+      }) as readonly [bigint, readonly bigint[], readonly number[], bigint];
+
+      // The quoter walks exact output paths backwards; keep prices in hop order
+      return {
+        hops,
+        path,
+        tradeType,
+        amountIn,
+        amountOut: amount,
+        gasEstimate,
+        sqrtPriceX96AfterList: [...reversedSqrtPrices].reverse(),
+      };
+    } catch {
+      retries++;
+      if (retries > maxRetries) return null;
+      // Exponential backoff: 100ms, 200ms
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, retries) * 100));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Quote a route with the local engine when it can price it, otherwise with QuoterV2
+ * Pass a null block number to skip the local engine
+ */
+export async function quoteRouteLocalFirst(
+  client: QuoteClient,
+  hops: RouteHop[],
+  amount: bigint,
+  tradeType: TradeType,
+  blockNumber: bigint | null
+): Promise<QuotedRoute | null> {
+  if (blockNumber !== null) {
+    const local = await quoteRouteLocally(client, hops, amount, tradeType, blockNumber);
+    if (local.status === "quoted") return local.route;
+    if (local.status === "no-liquidity") return null;
+  }
+  return quoteRoute(client, hops, amount, tradeType, 0);
+}
+
+/**
+ * Find the best route between two pool tokens for the trade type (net of gas when costOf is given),
+ * or null if no route has liquidity
+ * Candidates are built over live pools only (see enumerateLiveRoutes); without a block to read pool
+ * state at, only the direct pools are tried
+ * Every candidate is simulated locally against pool state for the current block; routes the
+ * engine cannot price are quoted by QuoterV2 in parallel, and a locally ranked winner is
+ * confirmed with QuoterV2 before it is returned, falling back to the next-best local routes
+ * Quotes still pending when the budget deadline (epoch ms) passes are ignored, and
+ * reverting routes are not retried: a missing pool reverts the same way every time
+ */
+export async function findBestRoute(
+  client: QuoteClient,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint,
+  tradeType: TradeType = "exactInput",
+  deadlineAt: number = Date.now() + QUOTE_LATENCY_BUDGET_MS,
+  costOf?: RouteCostFn
+): Promise<QuotedRoute | null> {
+  const blockNumber = await withinBudget(getQuoteBlockNumber(client), deadlineAt).catch(() => null);
+  const liveRoutes = blockNumber !== null
+    ? await withinBudget(enumerateLiveRoutes(client, tokenIn, tokenOut, blockNumber), deadlineAt).catch(() => null)
+    : null;
+  const candidates = liveRoutes ?? enumerateRoutes(tokenIn, tokenOut).filter(hops => hops.length === 1);
+
+  const local: (LocalQuoteResult | null)[] = blockNumber !== null
+    ? await Promise.all(
+        candidates.map(hops =>
+          withinBudget(quoteRouteLocally(client, hops, amount, tradeType, blockNumber), deadlineAt)
+        )
+      )
+    : candidates.map(() => null);
+
+  const onChainCandidates = candidates.filter((_, i) => local[i] === null || local[i]?.status === "unavailable");
+  const onChain = await Promise.all(
+    onChainCandidates.map(hops => withinBudget(quoteRoute(client, hops, amount, tradeType, 0), deadlineAt))
+  );
+
+  const rankedLocal = local
+    .flatMap(result => (result?.status === "quoted" ? [result.route] : []))
+    .sort((a, b) => (isBetterQuote(a, b, costOf) ? -1 : isBetterQuote(b, a, costOf) ? 1 : 0));
+
+  let bestOnChain: QuotedRoute | null = null;
+  for (const quote of onChain) {
+    if (quote && isBetterQuote(quote, bestOnChain, costOf)) {
+      bestOnChain = quote;
+    }
+  }
+
+  // Local math ranks the rest; QuoterV2 supplies the authoritative amounts and gas for the one returned.
+  // Only local routes that beat the best on-chain quote are worth confirming
+  const toConfirm = rankedLocal
+    .filter(route => !bestOnChain || isBetterQuote(route, bestOnChain, costOf))
+    .slice(0, MAX_CONFIRM_CANDIDATES);
+  const confirmDeadlineAt = Date.now() + CONFIRM_LATENCY_BUDGET_MS;
+  for (const route of toConfirm) {
+    const verified = await withinBudget(quoteRoute(client, route.hops, amount, tradeType, 0), confirmDeadlineAt);
+    if (verified) return verified;
+    console.warn(`QuoterV2 could not confirm local route ${formatRoute(route.hops)}`);
+  }
+
+  if (!bestOnChain) {
+    console.warn(`No route quoted for ${tokenIn.symbol} → ${tokenOut.symbol} across ${candidates.length} candidates`);
+  }
+  return bestOnChain;
+}
@@ -3,6 +3,9 @@
  * Handles RPC failures gracefully by trying backup providers
  */
 
+import { createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+
 interface RPCConfig {
   url: string;
   priority: number;
@@ -89,6 +92,30 @@ export function getPrimaryRPCUrl(): string {
   return RPC_PROVIDERS[0].url;
 }
 
+function createBaseClient() {
+  return createPublicClient({
+    chain: base,
+    // Contract reads issued in the same tick are aggregated into one Multicall3 eth_call
+    batch: { multicall: { wait: 0 } },
+    transport: http(getPrimaryRPCUrl(), {
+      retryCount: 3,
+      retryDelay: 100,
+    }),
+  });
+}
+
+let baseClient: ReturnType<typeof createBaseClient> | null = null;
+
+/**
+ * Shared Base public client, created once per server process
+ */
+export function getBaseClient(): ReturnType<typeof createBaseClient> {
+  if (!baseClient) {
+    baseClient = createBaseClient();
+  }
+  return baseClient;
+}
+
 /**
  * Health check for RPC providers
  */
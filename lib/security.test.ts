@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateContractAddress,
+  validateRouteHops,
+  validateSpenderAddress,
+  validateSplitLegs,
+} from './security';
+import { TOKENS } from './tokens';
+import { UNISWAP_CONTRACTS } from './uniswap';
+import { AERODROME_CONTRACTS } from './aerodrome';
+
+const IMPORTED = {
+  symbol: 'MOON',
+  address: '0x52908400098527886E0F7030069857D2E4169EE7' as const,
+  decimals: 18,
+  name: 'Moon',
+};
+
+describe('address allowlists', () => {
+  it('allows the routers and registry tokens as contracts', () => {
+    expect(validateContractAddress(UNISWAP_CONTRACTS.SwapRouter02.toLowerCase())).toBe(true);
+    expect(validateContractAddress(AERODROME_CONTRACTS.Router)).toBe(true);
+    expect(validateContractAddress(TOKENS.USDC.address)).toBe(true);
+    expect(validateContractAddress(IMPORTED.address)).toBe(false);
+  });
+
+  it('only allows the routers and Permit2 as spenders', () => {
+    expect(validateSpenderAddress(UNISWAP_CONTRACTS.SwapRouter02)).toBe(true);
+    expect(validateSpenderAddress(UNISWAP_CONTRACTS.Permit2)).toBe(true);
+    expect(validateSpenderAddress(AERODROME_CONTRACTS.Router)).toBe(true);
+    expect(validateSpenderAddress(UNISWAP_CONTRACTS.UniversalRouter)).toBe(false);
+    expect(validateSpenderAddress(TOKENS.USDC.address)).toBe(false);
+  });
+});
+
+describe('validateRouteHops', () => {
+  it('derives pool tokens for a connected route, with ETH routed through WETH', () => {
+    const route = validateRouteHops(
+      [
+        { tokenIn: 'ETH', tokenOut: 'USDC', fee: 500 },
+        { tokenIn: 'USDC', tokenOut: 'USDBC', fee: 100 },
+      ],
+      'ETH',
+      'USDBC'
+    );
+    expect(route.tokens).toEqual([TOKENS.WETH.address, TOKENS.USDC.address, TOKENS.USDBC.address]);
+    expect(route.fees).toEqual([500, 100]);
+  });
+
+  it('rejects unknown fee tiers', () => {
+    expect(() => validateRouteHops([{ tokenIn: 'WETH', tokenOut: 'USDC', fee: 42 }], 'WETH', 'USDC')).toThrow(
+      'Invalid fee tier in route: 42'
+    );
+  });
+
+  it('rejects disconnected, misdirected and looping routes', () => {
+    expect(() =>
+      validateRouteHops(
+        [
+          { tokenIn: 'WETH', tokenOut: 'USDC', fee: 500 },
+          { tokenIn: 'USDBC', tokenOut: 'USDC', fee: 100 },
+        ],
+        'WETH',
+        'USDC'
+      )
+    ).toThrow('Route is not connected at hop 1');
+    expect(() => validateRouteHops([{ tokenIn: 'WETH', tokenOut: 'USDBC', fee: 500 }], 'WETH', 'USDC')).toThrow(
+      'Route does not end in USDC'
+    );
+    expect(() =>
+      validateRouteHops(
+        [
+          { tokenIn: 'WETH', tokenOut: 'USDC', fee: 500 },
+          { tokenIn: 'USDC', tokenOut: 'WETH', fee: 3000 },
+        ],
+        'WETH',
+        'WETH'
+      )
+    ).toThrow('Route visits the same token more than once');
+  });
+
+  it('rejects empty and overlong routes', () => {
+    expect(() => validateRouteHops([], 'WETH', 'USDC')).toThrow('at least one hop');
+    const hop = { tokenIn: 'WETH', tokenOut: 'USDC', fee: 500 };
+    expect(() => validateRouteHops([hop, hop, hop, hop], 'WETH', 'USDC')).toThrow('maximum of 3 hops');
+  });
+
+  it('only trades imported tokens that come with the request', () => {
+    const hops = [{ tokenIn: 'WETH', tokenOut: 'MOON', fee: 10000 }];
+    expect(() => validateRouteHops(hops, 'WETH', 'MOON')).toThrow('Unknown token symbol: MOON');
+    expect(validateRouteHops(hops, 'WETH', 'MOON', [IMPORTED]).tokens).toEqual([TOKENS.WETH.address, IMPORTED.address]);
+  });
+});
+
+describe('validateSplitLegs', () => {
+  const legs = [
+    { fee: 500, amountIn: '600', minOutput: '1' },
+    { fee: 3000, amountIn: '400', minOutput: '1' },
+  ];
+
+  it('accepts legs over distinct tiers that add up to the swap amount', () => {
+    const split = validateSplitLegs(legs, 'ETH', 'USDC', 1000n);
+    expect(split.tokenIn).toBe(TOKENS.WETH.address);
+    expect(split.tokenOut).toBe(TOKENS.USDC.address);
+    expect(split.legs).toEqual([
+      { fee: 500, amountIn: 600n, amountOutMinimum: 1n },
+      { fee: 3000, amountIn: 400n, amountOutMinimum: 1n },
+    ]);
+  });
+
+  it('rejects legs that do not add up to the swap amount', () => {
+    expect(() => validateSplitLegs(legs, 'ETH', 'USDC', 1001n)).toThrow('do not add up');
+  });
+
+  it('rejects single legs, repeated tiers and non-positive amounts', () => {
+    expect(() => validateSplitLegs([legs[0]], 'ETH', 'USDC', 600n)).toThrow('at least two legs');
+    expect(() => validateSplitLegs([legs[0], { ...legs[1], fee: 500 }], 'ETH', 'USDC', 1000n)).toThrow(
+      'fee tier 500 more than once'
+    );
+    expect(() =>
+      validateSplitLegs([legs[0], { ...legs[1], minOutput: '0' }], 'ETH', 'USDC', 1000n)
+    ).toThrow('must have positive amounts');
+    expect(() =>
+      validateSplitLegs([legs[0], { ...legs[1], amountIn: 'lots' }], 'ETH', 'USDC', 1000n)
+    ).toThrow('Invalid amounts in split leg 1');
+  });
+});
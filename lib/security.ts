@@ -2,6 +2,10 @@
  * Security utilities for input validation and attack prevention
  */
 
+import { FEE_TIERS, UNISWAP_CONTRACTS } from './uniswap';
+import { AERODROME_CONTRACTS } from './aerodrome';
+import { TOKEN_REGISTRY, getTokenBySymbol, type TokenInfo } from './tokens';
+
 // Prompt injection patterns to block
 const PROMPT_INJECTION_PATTERNS = [
   /ignore\s+(all\s+)?(previous|above|prior)\s+instructions?/i,
@@ -183,12 +187,16 @@ export function checkRateLimit(
  * Validate contract addresses against whitelist
  */
 const WHITELISTED_CONTRACTS = [
-  '0x2626664c2603336E57B271c5C0b26F421741e481', // SwapRouter02
-  '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a', // QuoterV2
-  '0x4200000000000000000000000000000000000006', // WETH
-  '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
-  '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // USDBC
-  '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // Native ETH sentinel
+  // Uniswap V3 venue
+  UNISWAP_CONTRACTS.SwapRouter02,
+  UNISWAP_CONTRACTS.QuoterV2,
+  UNISWAP_CONTRACTS.UniversalRouter,
+  UNISWAP_CONTRACTS.Permit2,
+  // Aerodrome venue
+  AERODROME_CONTRACTS.Router,
+  // Core and verified tokens (including the native ETH sentinel). Community-list tokens are only
+  // tradeable through an import grant, after the same safety scan as any unlisted token
+  ...TOKEN_REGISTRY.filter(token => token.trust !== 'community').map(token => token.address),
 ];
 
 export function validateContractAddress(address: string): boolean {
@@ -199,26 +207,55 @@ export function validateContractAddress(address: string): boolean {
 }
 
 /**
- * Server-side token symbol to address mapping (source of truth)
- * Never trust client-provided addresses - always re-derive from symbol
+ * Contracts users may grant token allowances to: the venue routers and Permit2
+ * The Universal Router spends through Permit2 and never needs a direct approval
+ */
+const ALLOWED_SPENDERS = [
+  UNISWAP_CONTRACTS.SwapRouter02,
+  AERODROME_CONTRACTS.Router,
+  UNISWAP_CONTRACTS.Permit2,
+];
+
+export function validateSpenderAddress(address: string): boolean {
+  const normalized = address.toLowerCase();
+  return ALLOWED_SPENDERS.some(spender => spender.toLowerCase() === normalized);
+}
+
+/**
+ * Whether a token address is whitelisted or one of the wallet's own imported tokens
+ * Imported tokens only count for the request that carries their signed grants; the whitelist never changes
  */
-const TOKEN_ADDRESS_MAP: Record<string, string> = {
-  'WETH': '0x4200000000000000000000000000000000000006',
-  'USDC': '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-  'USDBC': '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
-  'ETH': '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
-};
+function isAllowedToken(address: string, importedTokens: TokenInfo[]): boolean {
+  const normalized = address.toLowerCase();
+  return (
+    validateContractAddress(address) ||
+    importedTokens.some(token => token.address.toLowerCase() === normalized)
+  );
+}
 
 /**
- * Validate and derive token addresses from symbols
- * This prevents malicious clients from injecting arbitrary contract addresses
+ * Error for a token outside the whitelist; community-listed tokens are pointed at the import flow
  */
-export function deriveTokenAddress(symbol: string): string {
-  const address = TOKEN_ADDRESS_MAP[symbol.toUpperCase()];
-  if (!address) {
+function notWhitelistedError(symbol: string): Error {
+  if (getTokenBySymbol(symbol)?.trust === 'community') {
+    return new Error(`Token ${symbol} is only community-listed. Import it by address to trade it`);
+  }
+  return new Error(`Token ${symbol} not whitelisted`);
+}
+
+/**
+ * Validate and derive token addresses from symbols via the token registry (source of truth)
+ * Never trust client-provided addresses - always re-derive from symbol
+ * importedTokens are the wallet's verified imports, consulted only for symbols the registry lacks
+ */
+export function deriveTokenAddress(symbol: string, importedTokens: TokenInfo[] = []): string {
+  const token =
+    getTokenBySymbol(symbol) ??
+    importedTokens.find(imported => imported.symbol.toUpperCase() === symbol.toUpperCase());
+  if (!token) {
     throw new Error(`Unknown token symbol: ${symbol}`);
   }
-  return address;
+  return token.address;
 }
 
 /**
@@ -230,35 +267,239 @@ export function validateSwapAddresses(params: {
   tokenInSymbol: string;
   tokenOutSymbol: string;
   spender?: string;
+  importedTokens?: TokenInfo[];
 }): void {
+  const importedTokens = params.importedTokens ?? [];
+
   // Validate router contract
   if (!validateContractAddress(params.to)) {
     throw new Error(`Invalid router address: ${params.to}`);
   }
 
   // Validate spender if provided
-  if (params.spender && !validateContractAddress(params.spender)) {
+  if (params.spender && !validateSpenderAddress(params.spender)) {
     throw new Error(`Invalid spender address: ${params.spender}`);
   }
 
   // Derive and validate token addresses
-  const tokenInAddress = deriveTokenAddress(params.tokenInSymbol);
-  const tokenOutAddress = deriveTokenAddress(params.tokenOutSymbol);
+  const tokenInAddress = deriveTokenAddress(params.tokenInSymbol, importedTokens);
+  const tokenOutAddress = deriveTokenAddress(params.tokenOutSymbol, importedTokens);
 
-  if (!validateContractAddress(tokenInAddress)) {
-    throw new Error(`Token ${params.tokenInSymbol} not whitelisted`);
+  if (!isAllowedToken(tokenInAddress, importedTokens)) {
+    throw notWhitelistedError(params.tokenInSymbol);
   }
 
-  if (!validateContractAddress(tokenOutAddress)) {
-    throw new Error(`Token ${params.tokenOutSymbol} not whitelisted`);
+  if (!isAllowedToken(tokenOutAddress, importedTokens)) {
+    throw notWhitelistedError(params.tokenOutSymbol);
   }
 }
 
+/**
+ * Validate an approval and derive the token address from its symbol (never trust a client token address)
+ * The spender must be on the allowlist, and native ETH has nothing to approve
+ */
+export function validateApprovalAddresses(params: {
+  tokenSymbol: string;
+  spender: string;
+  importedTokens?: TokenInfo[];
+}): `0x${string}` {
+  const importedTokens = params.importedTokens ?? [];
+
+  if (!validateSpenderAddress(params.spender)) {
+    throw new Error(`Spender not allowed: ${params.spender}`);
+  }
+
+  if (getTokenBySymbol(params.tokenSymbol)?.risk.native) {
+    throw new Error('Native ETH does not need an approval');
+  }
+
+  const tokenAddress = deriveTokenAddress(params.tokenSymbol, importedTokens);
+  if (!isAllowedToken(tokenAddress, importedTokens)) {
+    throw notWhitelistedError(params.tokenSymbol);
+  }
+  return tokenAddress as `0x${string}`;
+}
+
+/**
+ * Route hop descriptor as sent by the client (symbols only, never addresses)
+ * Uniswap V3 hops carry a fee tier, Aerodrome hops a stable/volatile flag
+ */
+export interface RouteHopDescriptor {
+  tokenIn: string;
+  tokenOut: string;
+  fee?: number;
+  stable?: boolean;
+}
+
+const MAX_ROUTE_HOPS = 3;
+const ALLOWED_FEE_TIERS: number[] = Object.values(FEE_TIERS);
+
+/**
+ * Validate a client-provided route's tokens and derive their addresses
+ * Every hop token is re-derived from the server-side map and must be whitelisted,
+ * and the hops must form a connected path from tokenIn to tokenOut
+ * (native ETH routes through WETH pools)
+ */
+export function validateRouteTokens(
+  hops: RouteHopDescriptor[],
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  importedTokens: TokenInfo[] = []
+): `0x${string}`[] {
+  if (!Array.isArray(hops) || hops.length === 0) {
+    throw new Error('Route must contain at least one hop');
+  }
+
+  if (hops.length > MAX_ROUTE_HOPS) {
+    throw new Error(`Route exceeds maximum of ${MAX_ROUTE_HOPS} hops`);
+  }
+
+  const toPoolSymbol = (symbol: string) =>
+    symbol.toUpperCase() === 'ETH' ? 'WETH' : symbol.toUpperCase();
+
+  const tokens: `0x${string}`[] = [];
+
+  hops.forEach((hop, i) => {
+    if (!hop || typeof hop.tokenIn !== 'string' || typeof hop.tokenOut !== 'string') {
+      throw new Error(`Invalid route hop at index ${i}`);
+    }
+
+    const hopIn = toPoolSymbol(hop.tokenIn);
+    const hopOut = toPoolSymbol(hop.tokenOut);
+    const expectedIn = i === 0 ? toPoolSymbol(tokenInSymbol) : toPoolSymbol(hops[i - 1].tokenOut);
+
+    if (hopIn !== expectedIn) {
+      throw new Error(`Route is not connected at hop ${i}: expected ${expectedIn}, got ${hopIn}`);
+    }
+
+    const addressIn = deriveTokenAddress(hopIn, importedTokens);
+    const addressOut = deriveTokenAddress(hopOut, importedTokens);
+
+    if (!isAllowedToken(addressIn, importedTokens) || !isAllowedToken(addressOut, importedTokens)) {
+      throw new Error(`Route hop ${hopIn} → ${hopOut} contains a non-whitelisted token`);
+    }
+
+    if (i === 0) tokens.push(addressIn as `0x${string}`);
+    tokens.push(addressOut as `0x${string}`);
+  });
+
+  if (toPoolSymbol(hops[hops.length - 1].tokenOut) !== toPoolSymbol(tokenOutSymbol)) {
+    throw new Error(`Route does not end in ${tokenOutSymbol}`);
+  }
+
+  const unique = new Set(tokens.map(token => token.toLowerCase()));
+  if (unique.size !== tokens.length) {
+    throw new Error('Route visits the same token more than once');
+  }
+
+  return tokens;
+}
+
+/**
+ * Validate a client-provided Uniswap V3 route and derive its pool token addresses
+ * On top of the token checks, every fee must be a known tier
+ */
+export function validateRouteHops(
+  hops: RouteHopDescriptor[],
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  importedTokens: TokenInfo[] = []
+): { tokens: `0x${string}`[]; fees: number[] } {
+  const tokens = validateRouteTokens(hops, tokenInSymbol, tokenOutSymbol, importedTokens);
+
+  const fees = hops.map(hop => {
+    if (typeof hop.fee !== 'number' || !ALLOWED_FEE_TIERS.includes(hop.fee)) {
+      throw new Error(`Invalid fee tier in route: ${hop.fee}`);
+    }
+    return hop.fee;
+  });
+
+  return { tokens, fees };
+}
+
+/**
+ * Split leg descriptor as sent by the client (amounts in wei as decimal strings)
+ */
+export interface SplitLegDescriptor {
+  fee: number;
+  amountIn: string;
+  minOutput: string;
+}
+
+/**
+ * Validate a client-provided split of an exact input swap across direct pools
+ * Each leg must use a distinct known fee tier between the whitelisted pool tokens,
+ * and the leg inputs must add up to exactly the amount being sold
+ */
+export function validateSplitLegs(
+  legs: SplitLegDescriptor[],
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  totalAmountIn: bigint,
+  importedTokens: TokenInfo[] = []
+): {
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  legs: { fee: number; amountIn: bigint; amountOutMinimum: bigint }[];
+} {
+  if (!Array.isArray(legs) || legs.length < 2) {
+    throw new Error('Split must contain at least two legs');
+  }
+
+  if (legs.length > ALLOWED_FEE_TIERS.length) {
+    throw new Error(`Split exceeds maximum of ${ALLOWED_FEE_TIERS.length} legs`);
+  }
+
+  const fees = new Set<number>();
+  let tokens: `0x${string}`[] = [];
+
+  const parsed = legs.map((leg, i) => {
+    if (!leg || typeof leg.amountIn !== 'string' || typeof leg.minOutput !== 'string') {
+      throw new Error(`Invalid split leg at index ${i}`);
+    }
+
+    if (fees.has(leg.fee)) {
+      throw new Error(`Split uses fee tier ${leg.fee} more than once`);
+    }
+    fees.add(leg.fee);
+
+    // Each leg is a direct hop; reuse the route checks for fee tier and token whitelist
+    tokens = validateRouteHops(
+      [{ tokenIn: tokenInSymbol, tokenOut: tokenOutSymbol, fee: leg.fee }],
+      tokenInSymbol,
+      tokenOutSymbol,
+      importedTokens
+    ).tokens;
+
+    let amountIn: bigint;
+    let amountOutMinimum: bigint;
+    try {
+      amountIn = BigInt(leg.amountIn);
+      amountOutMinimum = BigInt(leg.minOutput);
+    } catch {
+      throw new Error(`Invalid amounts in split leg ${i}`);
+    }
+
+    if (amountIn <= 0n || amountOutMinimum <= 0n) {
+      throw new Error(`Split leg ${i} must have positive amounts`);
+    }
+
+    return { fee: leg.fee, amountIn, amountOutMinimum };
+  });
+
+  const total = parsed.reduce((sum, leg) => sum + leg.amountIn, 0n);
+  if (total !== totalAmountIn) {
+    throw new Error('Split legs do not add up to the swap amount');
+  }
+
+  return { tokenIn: tokens[0], tokenOut: tokens[1], legs: parsed };
+}
+
 /**
  * Log blocked attempts for security monitoring
  */
 export function logSecurityEvent(event: {
-  type: 'blocked_input' | 'rate_limit' | 'invalid_contract' | 'simulation_failure' | 'copilot_error' | 'acp_request' | 'acp_error';
+  type: 'blocked_input' | 'rate_limit' | 'invalid_contract' | 'invalid_quote_ticket' | 'invalid_permit' | 'token_metadata_mismatch' | 'token_import' | 'simulation_failure' | 'copilot_error' | 'acp_request' | 'acp_error';
   identifier: string;
   reason: string;
   metadata?: Record<string, any>;
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { openPayload, sealPayload } from "./signed-payload";
+
+describe("signed payloads", () => {
+  beforeEach(() => {
+    vi.stubEnv("QUOTE_TICKET_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("opens a payload it sealed", () => {
+    const sealed = sealPayload("quote-ticket", { id: "abc", amountIn: "1000" });
+    expect(openPayload("quote-ticket", sealed, "quote ticket")).toEqual({ id: "abc", amountIn: "1000" });
+  });
+
+  it("rejects a payload sealed for another purpose", () => {
+    const sealed = sealPayload("token-import", { id: "abc" });
+    expect(() => openPayload("quote-ticket", sealed, "quote ticket")).toThrow("Invalid quote ticket signature");
+  });
+
+  it("rejects a tampered payload", () => {
+    const sealed = sealPayload("quote-ticket", { amountIn: "1000" });
+    const [, signature] = sealed.split(".");
+    const forged = Buffer.from(JSON.stringify({ amountIn: "1" })).toString("base64url");
+    expect(() => openPayload("quote-ticket", `${forged}.${signature}`, "quote ticket")).toThrow(
+      "Invalid quote ticket signature"
+    );
+  });
+
+  it("rejects a payload signed with another secret", () => {
+    const sealed = sealPayload("quote-ticket", { id: "abc" });
+    vi.stubEnv("QUOTE_TICKET_SECRET", "other-secret");
+    expect(() => openPayload("quote-ticket", sealed, "quote ticket")).toThrow("Invalid quote ticket signature");
+  });
+
+  it("rejects missing and malformed payloads", () => {
+    expect(() => openPayload("quote-ticket", undefined, "quote ticket")).toThrow("Missing quote ticket");
+    expect(() => openPayload("quote-ticket", "no-signature", "quote ticket")).toThrow("Malformed quote ticket");
+    expect(() => openPayload("quote-ticket", "a.b.c", "quote ticket")).toThrow("Malformed quote ticket");
+  });
+
+  it("refuses to sign without a secret in production", () => {
+    vi.stubEnv("QUOTE_TICKET_SECRET", "");
+    vi.stubEnv("NODE_ENV", "production");
+    expect(() => sealPayload("quote-ticket", { id: "abc" })).toThrow("QUOTE_TICKET_SECRET must be set in production");
+  });
+});
@@ -0,0 +1,58 @@
+// Signed Payloads
+// HMAC-signed JSON handed to clients and trusted when it comes back (quote tickets, token import grants)
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+let fallbackSecret: Buffer | null = null;
+
+function getSigningSecret(): Buffer {
+  if (process.env.QUOTE_TICKET_SECRET) {
+    return Buffer.from(process.env.QUOTE_TICKET_SECRET);
+  }
+  // A per-process secret breaks tickets across instances and restarts, so production refuses to sign without one
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("QUOTE_TICKET_SECRET must be set in production");
+  }
+  // Without a configured secret, payloads only verify on the instance that signed them
+  if (!fallbackSecret) {
+    console.warn('QUOTE_TICKET_SECRET is not set; using a per-process signing secret');
+    fallbackSecret = randomBytes(32);
+  }
+  return fallbackSecret;
+}
+
+// The purpose is part of the MAC so a payload signed for one use can never be replayed as another
+function sign(purpose: string, encodedPayload: string): Buffer {
+  return createHmac("sha256", getSigningSecret()).update(`${purpose}.${encodedPayload}`).digest();
+}
+
+/**
+ * Serialize and sign a payload: base64url(JSON).base64url(HMAC)
+ */
+export function sealPayload(purpose: string, payload: unknown): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(purpose, encodedPayload).toString("base64url")}`;
+}
+
+/**
+ * Check a sealed payload's signature and return its contents; throws if it was not signed here for this purpose
+ * label names the payload in error messages ("quote ticket")
+ */
+export function openPayload<T>(purpose: string, sealed: unknown, label: string): T {
+  if (typeof sealed !== "string") {
+    throw new Error(`Missing ${label}`);
+  }
+
+  const [encodedPayload, signature, ...rest] = sealed.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new Error(`Malformed ${label}`);
+  }
+
+  const expected = sign(purpose, encodedPayload);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error(`Invalid ${label} signature`);
+  }
+
+  return JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as T;
+}
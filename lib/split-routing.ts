@@ -0,0 +1,178 @@
+// Split Route Optimizer for Uniswap V3 on Base
+// Splits an exact input amount across the direct pools of several fee tiers to maximize total output
+
+import type { PublicClient } from "viem";
+import type { TokenInfo } from "./tokens";
+import { ROUTE_FEE_TIERS, QUOTE_LATENCY_BUDGET_MS, quoteRoute, quoteRouteLocalFirst, withinBudget } from "./routing";
+import { getQuoteBlockNumber } from "./local-quoter";
+
+// Granularity of the split: each pool receives a multiple of this share of the input
+export const SPLIT_INCREMENT_PERCENT = 10;
+
+// A split must beat the best single route by at least this much (basis points) to be worth the extra legs
+export const MIN_SPLIT_IMPROVEMENT_BPS = 10n;
+
+export interface SplitLeg {
+  fee: number;
+  percent: number;
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  sqrtPriceX96After: bigint;
+}
+
+export interface SplitQuote {
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  legs: SplitLeg[];
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+type QuoteClient = Pick<PublicClient, "readContract" | "getBlockNumber">;
+
+interface PoolCurve {
+  fee: number;
+  // outputs[k] = quoted output for k increments of the input (outputs[0] = 0), null if the quote failed
+  outputs: (bigint | null)[];
+  gasEstimates: bigint[];
+  sqrtPricesAfter: bigint[];
+}
+
+/**
+ * Find the best split of amountIn across the direct pools of each fee tier
+ * Quotes every pool at every increment (locally where possible), then allocates increments
+ * with a knapsack-style DP so the total output is maximized even when the pool curves are
+ * not concave; the chosen legs are re-quoted with QuoterV2 before they are returned
+ * Quotes not back before the budget deadline (epoch ms) are treated as unavailable
+ * Returns null when the optimum uses a single pool (nothing to split)
+ */
+export async function findBestSplit(
+  client: QuoteClient,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: bigint,
+  deadlineAt: number = Date.now() + QUOTE_LATENCY_BUDGET_MS,
+  feeTiers: number[] = ROUTE_FEE_TIERS,
+  incrementPercent: number = SPLIT_INCREMENT_PERCENT
+): Promise<SplitQuote | null> {
+  const steps = Math.floor(100 / incrementPercent);
+  if (steps < 2 || amountIn < BigInt(steps)) return null;
+
+  const amountForSteps = (k: number) => (amountIn * BigInt(k)) / BigInt(steps);
+  const blockNumber = await withinBudget(getQuoteBlockNumber(client), deadlineAt).catch(() => null);
+
+  const curves: PoolCurve[] = await Promise.all(
+    feeTiers.map(async fee => {
+      const hops = [{ tokenIn, tokenOut, fee }];
+      const quotes = await Promise.all(
+        Array.from({ length: steps }, (_, i) =>
+          withinBudget(
+            quoteRouteLocalFirst(client, hops, amountForSteps(i + 1), "exactInput", blockNumber),
+            deadlineAt
+          )
+        )
+      );
+      return {
+        fee,
+        outputs: [0n, ...quotes.map(quote => quote?.amountOut ?? null)],
+        gasEstimates: [0n, ...quotes.map(quote => quote?.gasEstimate ?? 0n)],
+        sqrtPricesAfter: [0n, ...quotes.map(quote => quote?.sqrtPriceX96AfterList[0] ?? 0n)],
+      };
+    })
+  );
+
+  const usable = curves.filter(curve => curve.outputs.some((output, k) => k > 0 && output !== null));
+  if (usable.length < 2) return null;
+
+  // best[k] = max output using the pools seen so far with k increments; choice[p][k] = increments given to pool p
+  let best: (bigint | null)[] = Array.from({ length: steps + 1 }, (_, k) => (k === 0 ? 0n : null));
+  const choice: number[][] = [];
+
+  for (const curve of usable) {
+    const next: (bigint | null)[] = Array(steps + 1).fill(null);
+    const picks: number[] = Array(steps + 1).fill(0);
+
+    for (let total = 0; total <= steps; total++) {
+      for (let k = 0; k <= total; k++) {
+        const rest = best[total - k];
+        const output = curve.outputs[k];
+        if (rest === null || output === null) continue;
+
+        const candidate = rest + output;
+        if (next[total] === null || candidate > (next[total] as bigint)) {
+          next[total] = candidate;
+          picks[total] = k;
+        }
+      }
+    }
+
+    best = next;
+    choice.push(picks);
+  }
+
+  if (best[steps] === null) return null;
+
+  // Walk the choices back to recover how many increments each pool receives
+  const allocation: number[] = Array(usable.length).fill(0);
+  let remaining = steps;
+  for (let p = usable.length - 1; p >= 0; p--) {
+    allocation[p] = choice[p][remaining];
+    remaining -= allocation[p];
+  }
+
+  const legs: SplitLeg[] = [];
+  usable.forEach((curve, p) => {
+    const k = allocation[p];
+    if (k === 0) return;
+    legs.push({
+      fee: curve.fee,
+      percent: k * incrementPercent,
+      amountIn: amountForSteps(k),
+      amountOut: curve.outputs[k] as bigint,
+      gasEstimate: curve.gasEstimates[k],
+      sqrtPriceX96After: curve.sqrtPricesAfter[k],
+    });
+  });
+
+  if (legs.length < 2) return null;
+
+  // Integer division can leave dust; give it to the largest leg so the legs sum to amountIn
+  const allocated = legs.reduce((sum, leg) => sum + leg.amountIn, 0n);
+  const largest = legs.reduce((a, b) => (b.amountIn > a.amountIn ? b : a));
+  largest.amountIn += amountIn - allocated;
+
+  legs.sort((a, b) => b.percent - a.percent);
+
+  // Confirm each leg on-chain so the per-leg minimums are based on QuoterV2 amounts
+  const verified = await Promise.all(
+    legs.map(leg =>
+      withinBudget(quoteRoute(client, [{ tokenIn, tokenOut, fee: leg.fee }], leg.amountIn, "exactInput", 0), deadlineAt)
+    )
+  );
+  for (let i = 0; i < legs.length; i++) {
+    const quote = verified[i];
+    if (!quote) return null;
+    legs[i].amountOut = quote.amountOut;
+    legs[i].gasEstimate = quote.gasEstimate;
+    legs[i].sqrtPriceX96After = quote.sqrtPriceX96AfterList[0];
+  }
+
+  return {
+    tokenIn,
+    tokenOut,
+    legs,
+    amountIn,
+    amountOut: legs.reduce((sum, leg) => sum + leg.amountOut, 0n),
+    gasEstimate: legs.reduce((sum, leg) => sum + leg.gasEstimate, 0n),
+  };
+}
+
+/**
+ * Whether a split is worth executing instead of the best single route
+ * Compare net-of-gas outputs so the extra legs pay for themselves
+ */
+export function isSplitWorthwhile(splitAmountOut: bigint, singleRouteAmountOut: bigint): boolean {
+  return splitAmountOut * 10000n > singleRouteAmountOut * (10000n + MIN_SPLIT_IMPROVEMENT_BPS);
+}
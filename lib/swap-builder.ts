@@ -0,0 +1,234 @@
+// Swap Calldata Builder for SwapRouter02
+// Encodes exact input/output swaps (direct, multi-hop or split across pools) and the multicall wrapping they need,
+// optionally preceded by an EIP-2612 selfPermit so approval and swap share one transaction
+
+import { encodeFunctionData, parseSignature } from "viem";
+import { SWAP_ROUTER_02_ABI, ROUTER_ADDRESS_THIS, encodeV3Path } from "./uniswap";
+import type { TradeType } from "./routing";
+
+export interface SelfPermitParams {
+  token: `0x${string}`;
+  value: bigint;
+  deadline: bigint;
+  // 65-byte ECDSA signature over the token's EIP-2612 Permit
+  signature: `0x${string}`;
+}
+
+export interface SwapBuildParams {
+  tradeType: TradeType;
+  // Validated pool token path (tokenIn first) and one fee per hop
+  tokens: `0x${string}`[];
+  fees: number[];
+  recipient: `0x${string}`;
+  // Exact input: amount sold. Exact output: maximum amount sold
+  amountIn: bigint;
+  // Exact input: minimum received. Exact output: amount bought
+  amountOut: bigint;
+  isSellingETH: boolean;
+  isBuyingETH: boolean;
+  // Unix timestamp (seconds) after which the router rejects the swap
+  deadline: number;
+  // Signed EIP-2612 permit the router redeems before swapping
+  selfPermit?: SelfPermitParams;
+}
+
+export interface SplitLegBuildParams {
+  fee: number;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+}
+
+export interface SplitSwapBuildParams {
+  // Validated pool tokens; every leg swaps tokenIn for tokenOut directly in its fee tier's pool
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  legs: SplitLegBuildParams[];
+  recipient: `0x${string}`;
+  isSellingETH: boolean;
+  isBuyingETH: boolean;
+  deadline: number;
+  selfPermit?: SelfPermitParams;
+}
+
+export interface SwapBuildResult {
+  data: `0x${string}`;
+  value: bigint;
+}
+
+function encodeSwapCall(params: SwapBuildParams): `0x${string}` {
+  const { tradeType, tokens, fees, recipient, amountIn, amountOut } = params;
+
+  if (tradeType === "exactOutput") {
+    if (fees.length === 1) {
+      return encodeFunctionData({
+        abi: SWAP_ROUTER_02_ABI,
+        functionName: "exactOutputSingle",
+        args: [
+          {
+            tokenIn: tokens[0],
+            tokenOut: tokens[1],
+            fee: fees[0],
+            recipient,
+            amountOut,
+            amountInMaximum: amountIn,
+            sqrtPriceLimitX96: 0n,
+          },
+        ],
+      });
+    }
+
+    // Exact output paths are encoded from tokenOut back to tokenIn
+    return encodeFunctionData({
+      abi: SWAP_ROUTER_02_ABI,
+      functionName: "exactOutput",
+      args: [
+        {
+          path: encodeV3Path([...tokens].reverse(), [...fees].reverse()),
+          recipient,
+          amountOut,
+          amountInMaximum: amountIn,
+        },
+      ],
+    });
+  }
+
+  if (fees.length === 1) {
+    return encodeFunctionData({
+      abi: SWAP_ROUTER_02_ABI,
+      functionName: "exactInputSingle",
+      args: [
+        {
+          tokenIn: tokens[0],
+          tokenOut: tokens[1],
+          fee: fees[0],
+          recipient,
+          amountIn,
+          amountOutMinimum: amountOut,
+          sqrtPriceLimitX96: 0n,
+        },
+      ],
+    });
+  }
+
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    functionName: "exactInput",
+    args: [
+      {
+        path: encodeV3Path(tokens, fees),
+        recipient,
+        amountIn,
+        amountOutMinimum: amountOut,
+      },
+    ],
+  });
+}
+
+/**
+ * Build the router calldata and ETH value for a swap
+ * - Buying ETH: the WETH output stays in the router and unwrapWETH9 sends native ETH to the user
+ * - Exact output paid in ETH: the maximum is sent and refundETH returns what was not spent
+ * - Signed permit: selfPermitIfNecessary runs first, so the approval lands in the swap transaction
+ * Every swap is wrapped in multicall(deadline, data) so a stale signed swap cannot execute
+ */
+export function buildSwapCalldata(params: SwapBuildParams): SwapBuildResult {
+  const calls: `0x${string}`[] = [];
+
+  if (params.selfPermit) {
+    calls.push(encodeSelfPermit(params.selfPermit));
+  }
+
+  calls.push(
+    encodeSwapCall({
+      ...params,
+      recipient: params.isBuyingETH ? ROUTER_ADDRESS_THIS : params.recipient,
+    })
+  );
+
+  if (params.isBuyingETH) {
+    // amountOut is the minimum for exact input and the exact amount for exact output
+    calls.push(
+      encodeFunctionData({
+        abi: SWAP_ROUTER_02_ABI,
+        functionName: "unwrapWETH9",
+        args: [params.amountOut],
+      })
+    );
+  }
+
+  if (params.tradeType === "exactOutput" && params.isSellingETH) {
+    calls.push(
+      encodeFunctionData({
+        abi: SWAP_ROUTER_02_ABI,
+        functionName: "refundETH",
+      })
+    );
+  }
+
+  return {
+    data: encodeDeadlineMulticall(calls, params.deadline),
+    value: params.isSellingETH ? params.amountIn : 0n,
+  };
+}
+
+/**
+ * Build the router calldata for an exact input swap split across several pools:
+ * one exactInputSingle per leg, each with its own minimum output
+ * When buying ETH every leg pays the router, which unwraps the combined WETH once
+ * When selling ETH the full amount is sent and each leg wraps its share
+ * A signed permit is redeemed once, before the first leg
+ */
+export function buildSplitSwapCalldata(params: SplitSwapBuildParams): SwapBuildResult {
+  const { tokenIn, tokenOut, legs, recipient, isSellingETH, isBuyingETH, deadline, selfPermit } = params;
+
+  const calls: `0x${string}`[] = selfPermit ? [encodeSelfPermit(selfPermit)] : [];
+  calls.push(...legs.map(leg =>
+    encodeSwapCall({
+      tradeType: "exactInput",
+      tokens: [tokenIn, tokenOut],
+      fees: [leg.fee],
+      recipient: isBuyingETH ? ROUTER_ADDRESS_THIS : recipient,
+      amountIn: leg.amountIn,
+      amountOut: leg.amountOutMinimum,
+      isSellingETH,
+      isBuyingETH,
+      deadline,
+    })
+  ));
+
+  const totalIn = legs.reduce((sum, leg) => sum + leg.amountIn, 0n);
+  const totalMinOut = legs.reduce((sum, leg) => sum + leg.amountOutMinimum, 0n);
+
+  if (isBuyingETH) {
+    calls.push(
+      encodeFunctionData({
+        abi: SWAP_ROUTER_02_ABI,
+        functionName: "unwrapWETH9",
+        args: [totalMinOut],
+      })
+    );
+  }
+
+  return {
+    data: encodeDeadlineMulticall(calls, deadline),
+    value: isSellingETH ? totalIn : 0n,
+  };
+}
+
+// IfNecessary: skipped when the allowance is already there, so a permit front-run by someone else cannot revert the swap
+function encodeSelfPermit({ token, value, deadline, signature }: SelfPermitParams): `0x${string}` {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    functionName: "selfPermitIfNecessary",
+    args: [token, value, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+  });
+}
+
+function encodeDeadlineMulticall(calls: `0x${string}`[], deadline: number): `0x${string}` {
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    functionName: "multicall",
+    args: [BigInt(deadline), calls],
+  });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { validateTokenList } from "./token-list";
+
+const token = {
+  chainId: 8453,
+  address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+  symbol: "DAI",
+  name: "Dai Stablecoin",
+  decimals: 18,
+};
+
+function list(tokens: unknown[]) {
+  return {
+    name: "Test List",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    version: { major: 1, minor: 0, patch: 0 },
+    tokens,
+  };
+}
+
+describe("validateTokenList", () => {
+  it("accepts a well-formed list", () => {
+    const [validated] = validateTokenList(list([token])).tokens;
+    expect(validated).toMatchObject(token);
+  });
+
+  it("rejects addresses that fail their EIP-55 checksum", () => {
+    const misCased = "0x50C5725949a6F0c72E6C4a641F24049A917DB0Cb";
+    expect(() => validateTokenList(list([{ ...token, address: misCased }]))).toThrow("fails its EIP-55 checksum");
+  });
+
+  it("rejects repeated addresses and symbols on the same chain", () => {
+    expect(() => validateTokenList(list([token, { ...token, symbol: "DAI2" }]))).toThrow("repeats");
+    expect(() =>
+      validateTokenList(list([token, { ...token, address: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2", symbol: "dai" }]))
+    ).toThrow("Token list repeats dai on chain 8453");
+  });
+
+  it("rejects malformed tokens and list metadata", () => {
+    expect(() => validateTokenList(list([{ ...token, decimals: 256 }]))).toThrow("tokens[0].decimals");
+    expect(() => validateTokenList(list([{ ...token, symbol: "D A I" }]))).toThrow("tokens[0].symbol is invalid");
+    expect(() => validateTokenList(list([]))).toThrow("between 1 and");
+    expect(() => validateTokenList({ ...list([token]), timestamp: "yesterday" })).toThrow("not a date-time");
+    expect(() => validateTokenList({ ...list([token]), version: { major: 1 } })).toThrow("major, minor and patch");
+  });
+});
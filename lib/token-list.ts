@@ -0,0 +1,191 @@
+// Token Lists
+// Loads and validates token lists in the Uniswap Token List schema (https://tokenlists.org)
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { getAddress } from "viem";
+import bundledBaseList from "./token-lists/swapwright-base.tokenlist.json";
+
+// core: built into the registry; verified: reviewed lists; community: anything else
+export type TokenTrustLevel = "core" | "verified" | "community";
+
+export const TRUST_RANK: Record<TokenTrustLevel, number> = {
+  core: 2,
+  verified: 1,
+  community: 0,
+};
+
+export interface TokenListToken {
+  chainId: number;
+  address: `0x${string}`;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenListToken[];
+  tags?: Record<string, { name: string; description: string }>;
+}
+
+export interface TokenListSource {
+  // File path or "bundled:<file>", used in error messages and warnings
+  source: string;
+  trust: TokenTrustLevel;
+  list: TokenList;
+}
+
+// Limits from the token list JSON schema
+const MAX_LIST_TOKENS = 10_000;
+const MAX_SYMBOL_LENGTH = 20;
+const MAX_NAME_LENGTH = 60;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function validateToken(raw: unknown, index: number): TokenListToken {
+  const where = `tokens[${index}]`;
+  if (!isObject(raw)) throw new Error(`${where} is not an object`);
+
+  const { chainId, address, symbol, name, decimals, logoURI, tags, extensions } = raw;
+  if (!isNonNegativeInteger(chainId) || chainId < 1) {
+    throw new Error(`${where}.chainId must be a positive integer`);
+  }
+  if (typeof address !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    throw new Error(`${where}.address is not an address`);
+  }
+  // Lists must publish EIP-55 checksummed addresses; a mismatch means a typo or a tampered entry
+  if (getAddress(address) !== address) {
+    throw new Error(`${where}.address ${address} fails its EIP-55 checksum`);
+  }
+  if (typeof symbol !== "string" || !/^\S+$/.test(symbol) || symbol.length > MAX_SYMBOL_LENGTH) {
+    throw new Error(`${where}.symbol is invalid`);
+  }
+  if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`${where}.name is invalid`);
+  }
+  if (!isNonNegativeInteger(decimals) || decimals > 255) {
+    throw new Error(`${where}.decimals must be an integer between 0 and 255`);
+  }
+  if (logoURI !== undefined && typeof logoURI !== "string") {
+    throw new Error(`${where}.logoURI must be a string`);
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === "string"))) {
+    throw new Error(`${where}.tags must be a list of tag ids`);
+  }
+  if (extensions !== undefined && !isObject(extensions)) {
+    throw new Error(`${where}.extensions must be an object`);
+  }
+
+  return {
+    chainId,
+    address: address as `0x${string}`,
+    symbol,
+    name,
+    decimals,
+    logoURI,
+    tags: tags as string[] | undefined,
+    extensions,
+  };
+}
+
+/**
+ * Check a parsed token list against the token list schema; throws on the first violation
+ * Duplicate addresses or symbols on the same chain are rejected too
+ */
+export function validateTokenList(raw: unknown): TokenList {
+  if (!isObject(raw)) throw new Error("Token list is not an object");
+
+  const { name, timestamp, version, tokens, tags } = raw;
+  if (typeof name !== "string" || name.length === 0) {
+    throw new Error("Token list name is missing");
+  }
+  if (typeof timestamp !== "string" || Number.isNaN(Date.parse(timestamp))) {
+    throw new Error("Token list timestamp is not a date-time");
+  }
+  if (
+    !isObject(version) ||
+    !isNonNegativeInteger(version.major) ||
+    !isNonNegativeInteger(version.minor) ||
+    !isNonNegativeInteger(version.patch)
+  ) {
+    throw new Error("Token list version must have integer major, minor and patch");
+  }
+  if (!Array.isArray(tokens) || tokens.length === 0 || tokens.length > MAX_LIST_TOKENS) {
+    throw new Error(`Token list must have between 1 and ${MAX_LIST_TOKENS} tokens`);
+  }
+  if (tags !== undefined && !isObject(tags)) {
+    throw new Error("Token list tags must be an object");
+  }
+
+  const validated = tokens.map(validateToken);
+
+  const seen = new Set<string>();
+  for (const token of validated) {
+    const addressKey = `${token.chainId}:${token.address.toLowerCase()}`;
+    const symbolKey = `${token.chainId}:symbol:${token.symbol.toUpperCase()}`;
+    if (seen.has(addressKey)) throw new Error(`Token list repeats ${token.address} on chain ${token.chainId}`);
+    if (seen.has(symbolKey)) throw new Error(`Token list repeats ${token.symbol} on chain ${token.chainId}`);
+    seen.add(addressKey);
+    seen.add(symbolKey);
+  }
+
+  return {
+    name,
+    timestamp,
+    version: { major: version.major, minor: version.minor, patch: version.patch },
+    tokens: validated,
+    tags: tags as TokenList["tags"],
+  };
+}
+
+/**
+ * Lists configured through TOKEN_LIST_PATHS: comma-separated file paths, each optionally
+ * suffixed with =verified or =community (default community)
+ * e.g. TOKEN_LIST_PATHS=./lists/team.tokenlist.json=verified,./lists/extra.tokenlist.json
+ */
+function readConfiguredTokenLists(): TokenListSource[] {
+  const configured = typeof window === "undefined" ? process.env.TOKEN_LIST_PATHS : undefined;
+  if (!configured) return [];
+
+  const sources: TokenListSource[] = [];
+  for (const entry of configured.split(",").map(part => part.trim()).filter(Boolean)) {
+    const [path, trust = "community"] = entry.split("=");
+    try {
+      if (trust !== "verified" && trust !== "community") {
+        throw new Error(`unknown trust level "${trust}"`);
+      }
+      const list = validateTokenList(JSON.parse(readFileSync(resolve(process.cwd(), path), "utf8")));
+      sources.push({ source: path, trust, list });
+    } catch (error) {
+      // A bad list is skipped rather than taking the registry (and every swap) down with it
+      console.error(`Skipping token list ${path}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return sources;
+}
+
+/**
+ * Every token list to merge into the registry: the bundled list, then configured lists
+ */
+export function loadTokenLists(): TokenListSource[] {
+  return [
+    {
+      source: "bundled:swapwright-base.tokenlist.json",
+      trust: "verified",
+      list: validateTokenList(bundledBaseList),
+    },
+    ...readConfiguredTokenLists(),
+  ];
+}
@@ -0,0 +1,187 @@
+// Token Metadata Resolver
+// Reads ERC-20 symbol, name, decimals and totalSupply on-chain (one multicall per batch) and checks them against the registry
+
+import { formatUnits, type PublicClient } from "viem";
+import { ERC20_ABI } from "./uniswap";
+import { getTokenBySymbol, type RegistryToken, type TokenInfo } from "./tokens";
+import { logSecurityEvent } from "./security";
+import { toImportedRegistryToken } from "./custom-tokens";
+
+export interface TokenMetadata {
+  address: `0x${string}`;
+  // Empty when the contract does not return a string (e.g. bytes32 symbols)
+  symbol: string;
+  name: string;
+  decimals: number;
+  totalSupply: bigint | null;
+}
+
+export interface TokenMetadataMismatch {
+  field: "symbol" | "name" | "decimals";
+  registry: string | number;
+  onChain: string | number;
+}
+
+export interface VerifiedToken {
+  token: RegistryToken;
+  // null for native ETH, or when the chain could not be read
+  metadata: TokenMetadata | null;
+  mismatches: TokenMetadataMismatch[];
+  // On-chain decimals when known, the registry's otherwise
+  decimals: number;
+}
+
+type MetadataClient = Pick<PublicClient, "multicall">;
+
+// Symbol, name and decimals never change; the TTL only bounds how stale totalSupply gets
+const METADATA_CACHE_TTL_MS = 10 * 60_000;
+
+const metadataCache = new Map<string, { metadata: Promise<TokenMetadata | null>; expiresAt: number }>();
+const reportedMismatches = new Set<string>();
+
+function readString(result: { status: "success"; result: unknown } | { status: "failure" }): string {
+  return result.status === "success" && typeof result.result === "string" ? result.result : "";
+}
+
+/**
+ * Fetch metadata for tokens not in the cache with a single multicall
+ * Resolves to null for addresses that do not answer decimals() (not an ERC-20)
+ */
+function fetchMetadata(client: MetadataClient, addresses: `0x${string}`[]): Map<string, Promise<TokenMetadata | null>> {
+  const fields = ["symbol", "name", "decimals", "totalSupply"] as const;
+  const batch = client.multicall({
+    contracts: addresses.flatMap(address =>
+      fields.map(functionName => ({ address, abi: ERC20_ABI, functionName }))
+    ),
+    allowFailure: true,
+  });
+
+  return new Map(
+    addresses.map((address, i) => {
+      const metadata = batch.then(results => {
+        const [symbol, name, decimals, totalSupply] = results.slice(i * fields.length, (i + 1) * fields.length);
+        if (decimals.status !== "success") return null;
+        return {
+          address,
+          symbol: readString(symbol),
+          name: readString(name),
+          decimals: Number(decimals.result),
+          totalSupply: totalSupply.status === "success" ? (totalSupply.result as bigint) : null,
+        };
+      });
+      return [address.toLowerCase(), metadata];
+    })
+  );
+}
+
+/**
+ * On-chain metadata for each address (keyed by lower-cased address), served from cache when fresh
+ */
+export async function resolveTokenMetadata(
+  client: MetadataClient,
+  addresses: `0x${string}`[]
+): Promise<Map<string, TokenMetadata | null>> {
+  const now = Date.now();
+  const missing = [...new Set(addresses.map(address => address.toLowerCase()))]
+    .filter(key => {
+      const cached = metadataCache.get(key);
+      return !cached || cached.expiresAt <= now;
+    })
+    .map(key => addresses.find(address => address.toLowerCase() === key)!);
+
+  if (missing.length > 0) {
+    for (const [key, metadata] of fetchMetadata(client, missing)) {
+      metadataCache.set(key, { metadata, expiresAt: now + METADATA_CACHE_TTL_MS });
+      // RPC failures are not cached; the next caller retries
+      metadata.catch(() => metadataCache.delete(key));
+    }
+  }
+
+  const resolved = new Map<string, TokenMetadata | null>();
+  for (const address of addresses) {
+    const key = address.toLowerCase();
+    resolved.set(key, await metadataCache.get(key)!.metadata);
+  }
+  return resolved;
+}
+
+function findMismatches(token: RegistryToken, metadata: TokenMetadata): TokenMetadataMismatch[] {
+  const mismatches: TokenMetadataMismatch[] = [];
+  if (metadata.decimals !== token.decimals) {
+    mismatches.push({ field: "decimals", registry: token.decimals, onChain: metadata.decimals });
+  }
+  // Registry symbols are upper-cased (USDbC is USDBC), so compare case-insensitively
+  if (metadata.symbol && metadata.symbol.toUpperCase() !== token.symbol.toUpperCase()) {
+    mismatches.push({ field: "symbol", registry: token.symbol, onChain: metadata.symbol });
+  }
+  if (metadata.name && metadata.name !== token.name) {
+    mismatches.push({ field: "name", registry: token.name, onChain: metadata.name });
+  }
+  return mismatches;
+}
+
+/**
+ * Check registry tokens against their contracts
+ * Mismatches are logged once per token; callers decide whether one is fatal (decimals always is)
+ * If the chain cannot be read the registry is trusted as-is
+ */
+export async function verifyTokenMetadata(client: MetadataClient, tokens: RegistryToken[]): Promise<VerifiedToken[]> {
+  const erc20s = tokens.filter(token => !token.risk.native);
+
+  let resolved = new Map<string, TokenMetadata | null>();
+  try {
+    resolved = await resolveTokenMetadata(client, erc20s.map(token => token.address));
+  } catch (error) {
+    console.error("Failed to read token metadata:", error);
+  }
+
+  return tokens.map(token => {
+    const metadata = resolved.get(token.address.toLowerCase()) ?? null;
+    const mismatches = metadata ? findMismatches(token, metadata) : [];
+
+    if (mismatches.length > 0 && !reportedMismatches.has(token.address.toLowerCase())) {
+      reportedMismatches.add(token.address.toLowerCase());
+      logSecurityEvent({
+        type: "token_metadata_mismatch",
+        identifier: token.address,
+        reason: `Registry entry for ${token.symbol} does not match its contract`,
+        metadata: { mismatches, trust: token.trust, listName: token.listName },
+      });
+    }
+
+    return { token, metadata, mismatches, decimals: metadata?.decimals ?? token.decimals };
+  });
+}
+
+/**
+ * Human-readable amount from raw units: 2 decimals for stablecoins, up to 6 for everything else
+ */
+export function formatTokenAmount(rawAmount: string | bigint, decimals: number, stablecoin = false): string {
+  const amount = Number(formatUnits(BigInt(rawAmount), decimals));
+  return stablecoin
+    ? amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    : amount.toLocaleString("en-US", { minimumFractionDigits: 4, maximumFractionDigits: 6 });
+}
+
+/**
+ * Formatter for raw amounts of the given symbols, using decimals read from the token contracts
+ * Symbols outside the registry are looked up in importedTokens, and fall back to 18 decimals otherwise
+ */
+export async function getTokenAmountFormatter(
+  client: MetadataClient,
+  symbols: string[],
+  importedTokens: TokenInfo[] = []
+): Promise<(rawAmount: string | bigint, symbol: string) => string> {
+  const tokens = symbols
+    .map(symbol => {
+      const imported = importedTokens.find(token => token.symbol === symbol.toUpperCase());
+      return getTokenBySymbol(symbol) ?? (imported && toImportedRegistryToken(imported));
+    })
+    .filter((token): token is RegistryToken => token !== undefined);
+  const verified = await verifyTokenMetadata(client, tokens);
+
+  return (rawAmount, symbol) => {
+    const match = verified.find(({ token }) => token.symbol === symbol.toUpperCase());
+    return formatTokenAmount(rawAmount, match?.decimals ?? 18, match?.token.risk.stablecoin ?? false);
+  };
+}
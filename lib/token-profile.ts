@@ -0,0 +1,95 @@
+import type { TokenInfo } from './tokens';
+
+export interface ImportedToken {
+  token: TokenInfo;
+  // Signed by /api/import-token for this wallet; sent with quotes that trade the token
+  importGrant: string;
+  importedAt: string;
+  // Most serious safety finding at import time, shown next to the token
+  warning: string | null;
+}
+
+const MAX_IMPORTED_TOKENS_PER_WALLET = 20;
+
+// Import grants expire so a token is re-scanned for safety at least this often
+export const TOKEN_IMPORT_GRANT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Message a wallet signs to prove it asked for an import grant; issuedAt is unix seconds
+ */
+export function getTokenImportMessage(tokenAddress: string, wallet: string, issuedAt: number): string {
+  return [
+    'SwapWright token import',
+    `Token: ${tokenAddress}`,
+    `Wallet: ${wallet}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Whether an imported token's grant has lapsed and the token must be imported again
+ */
+export function isImportExpired(imported: ImportedToken): boolean {
+  return Date.now() - new Date(imported.importedAt).getTime() >= TOKEN_IMPORT_GRANT_TTL_SECONDS * 1000;
+}
+
+function getStorageKey(walletAddress: string): string {
+  return `swapwright_tokens_${walletAddress.toLowerCase()}`;
+}
+
+export function loadImportedTokens(walletAddress: string): ImportedToken[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const data = localStorage.getItem(getStorageKey(walletAddress));
+    if (!data) return [];
+
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? (parsed as ImportedToken[]) : [];
+  } catch (error) {
+    console.error('[TokenProfile] Failed to load:', error);
+    return [];
+  }
+}
+
+export function saveImportedTokens(walletAddress: string, tokens: ImportedToken[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(
+      getStorageKey(walletAddress),
+      JSON.stringify(tokens.slice(0, MAX_IMPORTED_TOKENS_PER_WALLET))
+    );
+  } catch (error) {
+    console.error('[TokenProfile] Failed to save:', error);
+  }
+}
+
+/**
+ * Add (or refresh) an imported token; newest first, one entry per address
+ */
+export function addImportedToken(walletAddress: string, imported: ImportedToken): ImportedToken[] {
+  const address = imported.token.address.toLowerCase();
+  const tokens = [
+    imported,
+    ...loadImportedTokens(walletAddress).filter(existing => existing.token.address.toLowerCase() !== address),
+  ].slice(0, MAX_IMPORTED_TOKENS_PER_WALLET);
+  saveImportedTokens(walletAddress, tokens);
+  return tokens;
+}
+
+export function removeImportedToken(walletAddress: string, tokenAddress: string): ImportedToken[] {
+  const tokens = loadImportedTokens(walletAddress).filter(
+    existing => existing.token.address.toLowerCase() !== tokenAddress.toLowerCase()
+  );
+  saveImportedTokens(walletAddress, tokens);
+  return tokens;
+}
+
+/**
+ * Import grants for the imported tokens among the given symbols
+ */
+export function getImportGrants(tokens: ImportedToken[], symbols: string[]): string[] {
+  const requested = symbols.map(symbol => symbol.toUpperCase());
+  return tokens.filter(imported => requested.includes(imported.token.symbol)).map(imported => imported.importGrant);
+}
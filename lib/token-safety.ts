@@ -0,0 +1,313 @@
+// Token Safety Scanner
+// Simulates a small buy, transfer and sell of a token with eth_simulateV1 state overrides to detect transfer taxes
+// and sell blocks, and reads its bytecode for upgradeable proxies and owner-controlled blacklists
+
+import { encodeFunctionData, maxUint256, parseEther, toFunctionSelector, zeroAddress, type PublicClient } from "viem";
+import { ERC20_ABI } from "./uniswap";
+import { AERODROME_ROUTER_ABI } from "./aerodrome";
+import { aerodromeAdapter, hopsToRouterRoutes } from "./venue-aerodrome";
+import { TOKENS, getTokenByAddress, getTokenBySymbol, type TokenInfo } from "./tokens";
+import type { TokenTrustLevel } from "./token-list";
+import { VENUE_ADAPTERS, isBetterVenueQuote, type ValidatedVenueRoute, type VenueAdapter, type VenueQuote } from "./venues";
+
+export interface TokenSafetyReport {
+  address: `0x${string}`;
+  symbol: string;
+  // Registry trust of the token; null when it is not in the registry (custom imports)
+  trust: TokenTrustLevel | null;
+  // Whether the buy/transfer/sell round trip could be simulated (needs a route and eth_simulateV1)
+  simulated: boolean;
+  // Percent lost between the quoted and the received amount on buy, and on a wallet-to-wallet transfer
+  buyTaxPercent: number | null;
+  transferTaxPercent: number | null;
+  // Selling back what was bought reverted, on the best route and on a fee-on-transfer-safe one
+  sellBlocked: boolean | null;
+  feeOnTransfer: boolean;
+  // What was bought cannot be sold back, taxed or not
+  honeypot: boolean;
+  upgradeable: boolean;
+  implementation: `0x${string}` | null;
+  // Bytecode exposes blacklist functions
+  blacklist: boolean;
+  owner: `0x${string}` | null;
+  scannedAt: number;
+}
+
+type ScannerClient = Pick<PublicClient, "simulateCalls" | "getStorageAt" | "getCode" | "readContract" | "getBlockNumber">;
+
+// Round trip size; small enough to move no pool, large enough that rounding does not read as a tax
+const PROBE_BUY_AMOUNT = parseEther("0.01");
+// Taxes below this are treated as rounding
+const TAX_TOLERANCE_PERCENT = 0.1;
+const SCAN_BUDGET_MS = 3000;
+const SCAN_CACHE_TTL_MS = 10 * 60_000;
+
+// Throwaway accounts for the simulation; the buyer gets its ETH from a balance override
+const PROBE_BUYER = "0x5afe5afe5afe5afe5afe5afe5afe5afe5afe0001" as const;
+const PROBE_RECEIVER = "0x5afe5afe5afe5afe5afe5afe5afe5afe5afe0002" as const;
+
+// EIP-1967 implementation and beacon slots
+const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920c3ca505d382bbc" as const;
+const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50" as const;
+
+// Selectors of common blacklist functions (USDC-, USDT- and meme-token style)
+const BLACKLIST_SELECTORS = [
+  "isBlacklisted(address)",
+  "blacklist(address)",
+  "blacklisted(address)",
+  "isBlackListed(address)",
+  "addBlackList(address)",
+  "addToBlacklist(address)",
+  "setBlacklist(address,bool)",
+  "isBot(address)",
+  "setBots(address[],bool)",
+].map(signature => toFunctionSelector(signature).slice(2));
+
+const OWNER_ABI = [
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const scanCache = new Map<string, { report: Promise<TokenSafetyReport>; expiresAt: number }>();
+
+function percentLost(expected: bigint, received: bigint): number {
+  if (expected === 0n) return 0;
+  const lost = Number(((expected - received) * 1_000_000n) / expected) / 10_000;
+  return lost < TAX_TOLERANCE_PERCENT ? 0 : lost;
+}
+
+function slotToAddress(value: `0x${string}` | undefined): `0x${string}` | null {
+  if (!value || BigInt(value) === 0n) return null;
+  return `0x${value.slice(-40)}` as `0x${string}`;
+}
+
+// Swap calldata is built straight from the quote: the probe is never sent, so the swap whitelist does not apply
+function routeFromQuote(quote: VenueQuote): ValidatedVenueRoute {
+  return {
+    tokens: [quote.hops[0].tokenIn.address, ...quote.hops.map(hop => hop.tokenOut.address)],
+    fees: quote.hops.every(hop => hop.fee !== undefined) ? quote.hops.map(hop => hop.fee!) : undefined,
+    stable: quote.hops.every(hop => hop.stable !== undefined) ? quote.hops.map(hop => hop.stable!) : undefined,
+  };
+}
+
+async function bestExactInputQuote(
+  client: ScannerClient,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amount: bigint
+): Promise<{ adapter: VenueAdapter; quote: VenueQuote } | null> {
+  const deadlineAt = Date.now() + SCAN_BUDGET_MS;
+  const quotes = await Promise.all(
+    VENUE_ADAPTERS.map(adapter =>
+      adapter
+        .quote(client, tokenIn, tokenOut, amount, "exactInput", { deadlineAt })
+        .then(quote => (quote ? { adapter, quote } : null))
+        .catch(() => null)
+    )
+  );
+
+  let best: { adapter: VenueAdapter; quote: VenueQuote } | null = null;
+  for (const candidate of quotes) {
+    if (candidate && isBetterVenueQuote(candidate.quote, best?.quote ?? null)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Buy with ETH and sell a slice back through Aerodrome's fee-on-transfer-safe entry point, which swaps
+ * whatever actually arrived instead of the amount promised (V3 pools revert when a tax shorts them)
+ * Returns whether the sell went through, or null when there is no Aerodrome route to try
+ */
+async function simulateFeeOnTransferSell(
+  client: ScannerClient,
+  token: TokenInfo,
+  buy: { to: `0x${string}`; data: `0x${string}`; value: bigint },
+  probeAmount: bigint,
+  deadline: number
+): Promise<boolean | null> {
+  const sell = await aerodromeAdapter
+    .quote(client, token, TOKENS.WETH, probeAmount, "exactInput", { deadlineAt: Date.now() + SCAN_BUDGET_MS })
+    .catch(() => null);
+  if (!sell) return null;
+
+  const { results } = await client.simulateCalls({
+    account: PROBE_BUYER,
+    stateOverrides: [{ address: PROBE_BUYER, balance: PROBE_BUY_AMOUNT * 10n }],
+    calls: [
+      buy,
+      { to: token.address, abi: ERC20_ABI, functionName: "approve", args: [aerodromeAdapter.spender, maxUint256] },
+      {
+        to: aerodromeAdapter.router,
+        data: encodeFunctionData({
+          abi: AERODROME_ROUTER_ABI,
+          functionName: "swapExactTokensForETHSupportingFeeOnTransferTokens",
+          args: [probeAmount, 0n, hopsToRouterRoutes(sell.hops), PROBE_BUYER, BigInt(deadline)],
+        }),
+      },
+    ],
+  });
+  return results[0].status === "success" && results[2].status === "success";
+}
+
+/**
+ * Buy with ETH, transfer a slice to a second wallet and sell a slice back, all in one eth_simulateV1 call
+ * A taxed token whose sell reverts gets a second, fee-on-transfer-safe sell before it counts as blocked
+ * Returns null when no route exists or the node does not support simulation
+ */
+async function simulateRoundTrip(client: ScannerClient, token: TokenInfo) {
+  const buy = await bestExactInputQuote(client, TOKENS.WETH, token, PROBE_BUY_AMOUNT);
+  if (!buy || buy.quote.amountOut === 0n) return null;
+
+  // Slices of the quoted amount so a tax of up to 80% still leaves enough to transfer and sell
+  const probeAmount = buy.quote.amountOut / 10n;
+  const sell = await bestExactInputQuote(client, token, TOKENS.WETH, probeAmount);
+  if (!sell) return null;
+
+  const deadline = Math.floor(Date.now() / 1000) + 300;
+  const buySwap = buy.adapter.buildSwap(routeFromQuote(buy.quote), {
+    tradeType: "exactInput",
+    recipient: PROBE_BUYER,
+    amountIn: PROBE_BUY_AMOUNT,
+    amountOut: 0n,
+    isSellingETH: true,
+    isBuyingETH: false,
+    deadline,
+  });
+  const sellSwap = sell.adapter.buildSwap(routeFromQuote(sell.quote), {
+    tradeType: "exactInput",
+    recipient: PROBE_BUYER,
+    amountIn: probeAmount,
+    amountOut: 0n,
+    isSellingETH: false,
+    isBuyingETH: true,
+    deadline,
+  });
+
+  try {
+    const { results } = await client.simulateCalls({
+      account: PROBE_BUYER,
+      stateOverrides: [{ address: PROBE_BUYER, balance: PROBE_BUY_AMOUNT * 10n }],
+      calls: [
+        { to: buy.adapter.router, data: buySwap.data, value: buySwap.value },
+        { to: token.address, abi: ERC20_ABI, functionName: "balanceOf", args: [PROBE_BUYER] },
+        { to: token.address, abi: ERC20_ABI, functionName: "transfer", args: [PROBE_RECEIVER, probeAmount] },
+        { to: token.address, abi: ERC20_ABI, functionName: "balanceOf", args: [PROBE_RECEIVER] },
+        { to: token.address, abi: ERC20_ABI, functionName: "approve", args: [sell.adapter.spender, maxUint256] },
+        { to: sell.adapter.router, data: sellSwap.data, value: sellSwap.value },
+      ],
+    });
+
+    const [bought, boughtBalance, transfer, receivedBalance, , sold] = results;
+    if (bought.status !== "success" || boughtBalance.status !== "success") return null;
+
+    const buyTaxPercent = percentLost(buy.quote.amountOut, boughtBalance.result as bigint);
+    const transferTaxPercent =
+      transfer.status === "success" && receivedBalance.status === "success"
+        ? percentLost(probeAmount, receivedBalance.result as bigint)
+        : null;
+
+    let sellBlocked = sold.status !== "success";
+    if (sellBlocked && (buyTaxPercent > 0 || (transferTaxPercent ?? 0) > 0)) {
+      const buyCall = { to: buy.adapter.router, data: buySwap.data, value: buySwap.value };
+      sellBlocked = (await simulateFeeOnTransferSell(client, token, buyCall, probeAmount, deadline)) !== true;
+    }
+
+    return {
+      buyTaxPercent,
+      transferTaxPercent,
+      transferBlocked: transfer.status !== "success",
+      sellBlocked,
+    };
+  } catch (error) {
+    console.error(`Token safety simulation failed for ${token.symbol}:`, error);
+    return null;
+  }
+}
+
+async function inspectContract(client: ScannerClient, token: TokenInfo) {
+  const [implementationSlot, beaconSlot, owner] = await Promise.all([
+    client.getStorageAt({ address: token.address, slot: EIP1967_IMPLEMENTATION_SLOT }).catch(() => undefined),
+    client.getStorageAt({ address: token.address, slot: EIP1967_BEACON_SLOT }).catch(() => undefined),
+    client
+      .readContract({ address: token.address, abi: OWNER_ABI, functionName: "owner" })
+      .catch(() => null),
+  ]);
+
+  const implementation = slotToAddress(implementationSlot);
+  const beacon = slotToAddress(beaconSlot);
+
+  // Blacklist functions of a proxy live in its implementation
+  const codes = await Promise.all(
+    [token.address, implementation].filter((address): address is `0x${string}` => address !== null)
+      .map(address => client.getCode({ address }).catch(() => undefined))
+  );
+  const bytecode = codes.join("").toLowerCase();
+
+  return {
+    upgradeable: implementation !== null || beacon !== null,
+    implementation: implementation ?? beacon,
+    // Selectors appear as PUSH4 (0x63) operands in the dispatcher
+    blacklist: BLACKLIST_SELECTORS.some(selector => bytecode.includes(`63${selector}`)),
+    owner: owner && owner !== zeroAddress ? owner : null,
+  };
+}
+
+async function runScan(client: ScannerClient, token: TokenInfo): Promise<TokenSafetyReport> {
+  const [roundTrip, contract] = await Promise.all([simulateRoundTrip(client, token), inspectContract(client, token)]);
+
+  const taxed =
+    (roundTrip?.buyTaxPercent ?? 0) > 0 || (roundTrip?.transferTaxPercent ?? 0) > 0;
+  const sellBlocked = roundTrip ? roundTrip.sellBlocked || roundTrip.transferBlocked : null;
+
+  return {
+    address: token.address,
+    symbol: token.symbol,
+    trust: getTokenByAddress(token.address)?.trust ?? null,
+    simulated: roundTrip !== null,
+    buyTaxPercent: roundTrip?.buyTaxPercent ?? null,
+    transferTaxPercent: roundTrip?.transferTaxPercent ?? null,
+    sellBlocked,
+    feeOnTransfer: taxed,
+    // A tax never excuses a blocked sell: taxed tokens already had their fee-on-transfer-safe retry
+    honeypot: sellBlocked === true,
+    ...contract,
+    scannedAt: Date.now(),
+  };
+}
+
+/**
+ * Safety report for a token, cached per address
+ */
+export function scanTokenSafety(client: ScannerClient, token: TokenInfo): Promise<TokenSafetyReport> {
+  const key = token.address.toLowerCase();
+  const cached = scanCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.report;
+
+  const report = runScan(client, token);
+  scanCache.set(key, { report, expiresAt: Date.now() + SCAN_CACHE_TTL_MS });
+  report.catch(() => scanCache.delete(key));
+  return report;
+}
+
+/**
+ * Reports for the tokens of a swap; built-in tokens and native ETH are known-good and skipped
+ * Symbols outside the registry are looked up in the wallet's imported tokens
+ */
+export async function scanSwapTokens(
+  client: ScannerClient,
+  symbols: string[],
+  importedTokens: TokenInfo[] = []
+): Promise<TokenSafetyReport[]> {
+  const tokens = symbols.flatMap((symbol): TokenInfo[] => {
+    const listed = getTokenBySymbol(symbol);
+    if (listed) return listed.trust === "core" ? [] : [listed];
+    const imported = importedTokens.find(token => token.symbol === symbol.toUpperCase());
+    return imported ? [imported] : [];
+  });
+  return Promise.all(tokens.map(token => scanTokenSafety(client, token)));
+}
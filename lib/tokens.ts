@@ -1,4 +1,10 @@
-// Base Mainnet Token Addresses
+// Base Mainnet Token Registry
+// Single source of truth for every token the app quotes, whitelists, prices and advertises to agents
+
+import { loadTokenLists, TRUST_RANK, type TokenListToken, type TokenTrustLevel } from "./token-list";
+
+export const BASE_CHAIN_ID = 8453;
+
 export interface TokenInfo {
   symbol: string;
   address: `0x${string}`;
@@ -6,54 +12,164 @@ export interface TokenInfo {
   name: string;
 }
 
+export interface TokenRiskFlags {
+  // Pegged to $1; valued without an on-chain price lookup
+  stablecoin: boolean;
+  // Bridged representation of a token native to another chain
+  bridged: boolean;
+  // Native gas token placeholder (no ERC-20 contract behind the address)
+  native: boolean;
+}
+
+export interface RegistryToken extends TokenInfo {
+  chainId: number;
+  // Requested symbols this token is also quoted for (USDbC is a USDC variant)
+  aliases: readonly string[];
+  priceFeeds: {
+    coingecko?: string;
+  };
+  risk: TokenRiskFlags;
+  trust: TokenTrustLevel;
+  // Token list the entry came from (built-in tokens have none)
+  listName?: string;
+  logoURI?: string;
+}
+
 export const TOKENS = {
   ETH: {
     symbol: "ETH",
-    address: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as const,
+    address: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE" as const, // Native ETH sentinel
     decimals: 18,
-    name: "Ethereum"
+    name: "Ethereum",
+    chainId: BASE_CHAIN_ID,
+    aliases: [],
+    priceFeeds: { coingecko: "ethereum" },
+    risk: { stablecoin: false, bridged: false, native: true },
+    trust: "core",
   },
   WETH: {
     symbol: "WETH",
     address: "0x4200000000000000000000000000000000000006" as const,
     decimals: 18,
-    name: "Wrapped Ether"
+    name: "Wrapped Ether",
+    chainId: BASE_CHAIN_ID,
+    aliases: [],
+    priceFeeds: { coingecko: "weth" },
+    risk: { stablecoin: false, bridged: false, native: false },
+    trust: "core",
   },
   USDC: {
     symbol: "USDC",
     address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const, // Native USDC on Base
     decimals: 6,
-    name: "USD Coin"
-  }
-} as const;
-
-const TOKEN_ALIASES: Record<string, TokenInfo[]> = {
-  USDC: [
-    {
-      symbol: "USDC",
-      address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const,
-      decimals: 6,
-      name: "USD Coin",
-    },
-    {
-      symbol: "USDBC",
-      address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA" as const,
-      decimals: 6,
-      name: "USD Base Coin",
+    name: "USD Coin",
+    chainId: BASE_CHAIN_ID,
+    aliases: [],
+    priceFeeds: { coingecko: "usd-coin" },
+    risk: { stablecoin: true, bridged: false, native: false },
+    trust: "core",
+  },
+  USDBC: {
+    symbol: "USDBC",
+    address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA" as const, // Bridged USDbC
+    decimals: 6,
+    name: "USD Base Coin",
+    chainId: BASE_CHAIN_ID,
+    aliases: ["USDC"],
+    priceFeeds: { coingecko: "bridged-usd-coin-base" },
+    risk: { stablecoin: true, bridged: true, native: false },
+    trust: "core",
+  },
+} as const satisfies Record<string, RegistryToken>;
+
+export type TokenSymbol = keyof typeof TOKENS;
+
+export const TOKEN_REGISTRY: RegistryToken[] = Object.values(TOKENS);
+
+const tokensBySymbol = new Map<string, RegistryToken>(TOKEN_REGISTRY.map(token => [token.symbol, token]));
+const tokensByAddress = new Map<string, RegistryToken>(
+  TOKEN_REGISTRY.map(token => [token.address.toLowerCase(), token])
+);
+
+function toRegistryToken(token: TokenListToken, trust: TokenTrustLevel, listName: string): RegistryToken {
+  const tags = token.tags ?? [];
+  const coingeckoId = token.extensions?.coingeckoId;
+  return {
+    // Symbols are matched upper-case everywhere (USDBC), the list's spelling stays in the name
+    symbol: token.symbol.toUpperCase(),
+    address: token.address,
+    decimals: token.decimals,
+    name: token.name,
+    chainId: token.chainId,
+    aliases: [],
+    priceFeeds: typeof coingeckoId === "string" ? { coingecko: coingeckoId } : {},
+    risk: {
+      // A community list claiming a $1 peg would let it inflate TVL and prices, so only trusted lists may
+      stablecoin: tags.includes("stablecoin") && trust !== "community",
+      bridged: tags.includes("bridged"),
+      native: false,
     },
-  ],
-};
+    trust,
+    listName,
+    logoURI: token.logoURI,
+  };
+}
+
+/**
+ * Merge token lists into the registry, most trusted list first
+ * A token whose symbol or address is already registered is skipped, so a lower-trust list can
+ * never shadow a core or verified token
+ */
+function mergeTokenLists() {
+  const sources = loadTokenLists().sort((a, b) => TRUST_RANK[b.trust] - TRUST_RANK[a.trust]);
+
+  for (const { source, trust, list } of sources) {
+    for (const listToken of list.tokens) {
+      if (listToken.chainId !== BASE_CHAIN_ID) continue;
+
+      const token = toRegistryToken(listToken, trust, list.name);
+      const existing = tokensBySymbol.get(token.symbol) ?? tokensByAddress.get(token.address.toLowerCase());
+      if (existing) {
+        if (existing.address.toLowerCase() !== token.address.toLowerCase() || existing.symbol !== token.symbol) {
+          console.warn(
+            `Token list ${source}: ${token.symbol} (${token.address}) conflicts with ${existing.symbol} (${existing.address}), skipped`
+          );
+        }
+        continue;
+      }
+
+      TOKEN_REGISTRY.push(token);
+      tokensBySymbol.set(token.symbol, token);
+      tokensByAddress.set(token.address.toLowerCase(), token);
+    }
+  }
+}
+
+mergeTokenLists();
+
+// Symbols accepted by the quote, swap and agent endpoints
+export const SUPPORTED_TOKEN_SYMBOLS = TOKEN_REGISTRY.map(token => token.symbol);
+
+export function getTokenBySymbol(symbol: string): RegistryToken | undefined {
+  return tokensBySymbol.get(symbol.toUpperCase());
+}
+
+export function getTokenByAddress(address: string): RegistryToken | undefined {
+  return tokensByAddress.get(address.toLowerCase());
+}
 
-export function getTokenBySymbol(symbol: string): TokenInfo | undefined {
-  return TOKENS[symbol.toUpperCase() as keyof typeof TOKENS];
+export function isSupportedToken(symbol: string): boolean {
+  return getTokenBySymbol(symbol) !== undefined;
 }
 
-export function getTokenVariants(symbol: string): TokenInfo[] {
+/**
+ * Every token quoted for a requested symbol: the token itself, then tokens aliased to it
+ */
+export function getTokenVariants(symbol: string): RegistryToken[] {
   const upper = symbol.toUpperCase();
-  const variants: TokenInfo[] = [];
+  const variants: RegistryToken[] = [];
   const baseToken = getTokenBySymbol(upper);
   if (baseToken) variants.push(baseToken);
-  const aliases = TOKEN_ALIASES[upper];
-  if (aliases) variants.push(...aliases);
+  variants.push(...TOKEN_REGISTRY.filter(token => token !== baseToken && token.aliases.includes(upper)));
   return variants;
 }
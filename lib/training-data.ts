@@ -37,6 +37,20 @@ export const INTENT_EXAMPLES: LabeledExample[] = [
     riskLevel: 'low',
   },
 
+  // Exact output - user names the amount to receive
+  {
+    input: 'get me exactly 1000 USDC with ETH',
+    intent: 'swap',
+    expectedAction: { type: 'fetch_quote', params: { tokenIn: 'ETH', tokenOut: 'USDC', amountOut: '1000' } },
+    riskLevel: 'low',
+  },
+  {
+    input: 'buy 500 USDC',
+    intent: 'swap',
+    notes: 'Exact output with no input token - ask which token to pay with',
+    riskLevel: 'low',
+  },
+
   // Edge cases - relative amounts
   {
     input: 'swap half my ETH to USDC',
@@ -240,10 +254,34 @@ export const RISK_PATTERNS: RiskPattern[] = [
   },
   {
     pattern: 'New/unverified token',
-    indicators: ['token not in whitelist', 'low trading volume'],
+    indicators: ['token not in whitelist', 'token only on a community list', 'low trading volume'],
     riskLevel: 'critical',
     recommendation: 'Only whitelisted tokens supported for security',
   },
+  {
+    pattern: 'Honeypot token',
+    indicators: ['simulated sell reverts', 'buy succeeds but transfer back is blocked'],
+    riskLevel: 'critical',
+    recommendation: 'Do not buy - the token cannot be sold back',
+  },
+  {
+    pattern: 'Transfer tax token',
+    indicators: ['received less than quoted on buy', 'wallet-to-wallet transfer loses a fee'],
+    riskLevel: 'high',
+    recommendation: 'Fee-on-transfer tokens return less than quoted and can make swaps revert',
+  },
+  {
+    pattern: 'Blacklist-capable token',
+    indicators: ['blacklist functions in bytecode', 'contract has an owner'],
+    riskLevel: 'medium',
+    recommendation: 'The token owner can freeze your balance - only hold what you are comfortable with',
+  },
+  {
+    pattern: 'Upgradeable token contract',
+    indicators: ['EIP-1967 implementation or beacon slot set'],
+    riskLevel: 'medium',
+    recommendation: 'The token logic can change after you buy - check who controls upgrades',
+  },
 ];
 
 /**
@@ -257,6 +295,10 @@ User: "swap 1 ETH to USDC"
 Assistant: "I'll get a quote for swapping 1 ETH to USDC. ETH is currently up 2.1% today."
 Action: { "type": "fetch_quote", "params": { "tokenIn": "ETH", "tokenOut": "USDC", "amount": "1" } }
 
+User: "get me exactly 500 USDC using ETH"
+Assistant: "I'll find out how much ETH it costs to receive exactly 500 USDC."
+Action: { "type": "fetch_quote", "params": { "tokenIn": "ETH", "tokenOut": "USDC", "amountOut": "500" } }
+
 User: "actually make it 0.5 ETH"
 Assistant: "I've updated the amount to 0.5 ETH. Fetching new quote..."
 Action: { "type": "modify_params", "params": { "amount": "0.5" } }
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DEADLINE_SECONDS,
+  MAX_DEADLINE_SECONDS,
+  MIN_DEADLINE_SECONDS,
+  encodeV3Path,
+  resolveDeadline,
+} from "./uniswap";
+import { TOKENS } from "./tokens";
+
+describe("encodeV3Path", () => {
+  it("packs tokens and 3-byte fees in path order", () => {
+    const path = encodeV3Path([TOKENS.WETH.address, TOKENS.USDC.address], [500]);
+    expect(path).toBe(`${TOKENS.WETH.address}0001f4${TOKENS.USDC.address.slice(2)}`.toLowerCase());
+  });
+
+  it("encodes multi-hop paths", () => {
+    const path = encodeV3Path([TOKENS.USDBC.address, TOKENS.WETH.address, TOKENS.USDC.address], [100, 3000]);
+    // 3 addresses and 2 fees
+    expect((path.length - 2) / 2).toBe(3 * 20 + 2 * 3);
+  });
+
+  it("requires one more token than fees", () => {
+    expect(() => encodeV3Path([TOKENS.WETH.address, TOKENS.USDC.address], [])).toThrow(
+      "Path must have exactly one more token than fees"
+    );
+  });
+});
+
+describe("resolveDeadline", () => {
+  const now = 1_700_000_000;
+
+  it("uses the default window when none is requested", () => {
+    expect(resolveDeadline(undefined, now)).toBe(now + DEFAULT_DEADLINE_SECONDS);
+    expect(resolveDeadline(Number.NaN, now)).toBe(now + DEFAULT_DEADLINE_SECONDS);
+  });
+
+  it("clamps the requested window", () => {
+    expect(resolveDeadline(1, now)).toBe(now + MIN_DEADLINE_SECONDS);
+    expect(resolveDeadline(86_400, now)).toBe(now + MAX_DEADLINE_SECONDS);
+    expect(resolveDeadline(600.9, now)).toBe(now + 600);
+  });
+});
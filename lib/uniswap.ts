@@ -1,10 +1,25 @@
+import { encodeAbiParameters, encodePacked, getContractAddress, keccak256 } from "viem";
+
 // Uniswap V3 Contract Addresses on Base Mainnet
 export const UNISWAP_CONTRACTS = {
   SwapRouter02: "0x2626664c2603336E57B271c5C0b26F421741e481",
   QuoterV2: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
   NonfungiblePositionManager: "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1",
+  UniswapV3Factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+  // Permit2-aware router; swaps paid through a Permit2 allowance or signature are sent here
+  UniversalRouter: "0x6fF5693b99212Da76ad316178A184AB56D299b43",
+  // Canonical Permit2 (same address on every chain)
+  Permit2: "0x000000000022D473030F116dDEE9F6B43aC78BA3",
 } as const;
 
+// keccak256 of the UniswapV3Pool creation code, used to derive pool addresses
+export const POOL_INIT_CODE_HASH =
+  "0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54" as const;
+
+// SwapRouter02 recipient sentinel: keep swap output in the router for a follow-up call
+// in the same multicall (e.g. unwrapWETH9)
+export const ROUTER_ADDRESS_THIS = "0x0000000000000000000000000000000000000002" as const;
+
 export function getBaseRpcUrl() {
   // Primary: Alchemy
   if (process.env.NEXT_PUBLIC_ALCHEMY_API_KEY) {
@@ -31,7 +46,83 @@ export const FEE_TIERS = {
 // Default slippage tolerance (0.5%)
 export const DEFAULT_SLIPPAGE = 0.005;
 
-// QuoterV2 ABI - minimal interface for quoteExactInputSingle
+// Swap deadline window in seconds (quotes and built swaps expire together)
+export const DEFAULT_DEADLINE_SECONDS = 300;
+export const MIN_DEADLINE_SECONDS = 30;
+export const MAX_DEADLINE_SECONDS = 1800;
+
+/**
+ * Resolve a unix deadline (seconds) from a requested window, clamped to sane bounds
+ */
+export function resolveDeadline(
+  deadlineSeconds?: number,
+  now: number = Math.floor(Date.now() / 1000)
+): number {
+  const window =
+    typeof deadlineSeconds === "number" && Number.isFinite(deadlineSeconds)
+      ? Math.max(MIN_DEADLINE_SECONDS, Math.min(Math.floor(deadlineSeconds), MAX_DEADLINE_SECONDS))
+      : DEFAULT_DEADLINE_SECONDS;
+  return now + window;
+}
+
+/**
+ * Sort two tokens into pool order (token0 has the lower address)
+ */
+export function sortTokens(
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`
+): [`0x${string}`, `0x${string}`] {
+  return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+}
+
+/**
+ * Derive a V3 pool address from its tokens and fee (CREATE2 from the factory)
+ * The pool may not be deployed; callers must handle reads that revert
+ */
+export function computePoolAddress(
+  tokenA: `0x${string}`,
+  tokenB: `0x${string}`,
+  fee: number
+): `0x${string}` {
+  const [token0, token1] = sortTokens(tokenA, tokenB);
+  return getContractAddress({
+    opcode: "CREATE2",
+    from: UNISWAP_CONTRACTS.UniswapV3Factory,
+    salt: keccak256(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "address" }, { type: "uint24" }],
+        [token0, token1, fee]
+      )
+    ),
+    bytecodeHash: POOL_INIT_CODE_HASH,
+  });
+}
+
+/**
+ * Encode a V3 multi-hop path as used by quoteExactInput / exactInput:
+ * tokenIn (20 bytes) | fee (3 bytes) | token (20 bytes) | fee | ... | tokenOut
+ * Exact output paths use the same layout but start from tokenOut
+ */
+export function encodeV3Path(tokens: `0x${string}`[], fees: number[]): `0x${string}` {
+  if (tokens.length !== fees.length + 1) {
+    throw new Error("Path must have exactly one more token than fees");
+  }
+
+  const types: ("address" | "uint24")[] = [];
+  const values: (`0x${string}` | number)[] = [];
+  tokens.forEach((token, i) => {
+    types.push("address");
+    values.push(token);
+    if (i < fees.length) {
+      types.push("uint24");
+      values.push(fees[i]);
+    }
+  });
+
+  return encodePacked(types, values);
+}
+
+// QuoterV2 ABI - minimal interface for exact input and exact output quotes
 export const QUOTER_V2_ABI = [
   {
     inputs: [
@@ -58,9 +149,64 @@ export const QUOTER_V2_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      { internalType: "bytes", name: "path", type: "bytes" },
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+    ],
+    name: "quoteExactInput",
+    outputs: [
+      { internalType: "uint256", name: "amountOut", type: "uint256" },
+      { internalType: "uint160[]", name: "sqrtPriceX96AfterList", type: "uint160[]" },
+      { internalType: "uint32[]", name: "initializedTicksCrossedList", type: "uint32[]" },
+      { internalType: "uint256", name: "gasEstimate", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "tokenIn", type: "address" },
+          { internalType: "address", name: "tokenOut", type: "address" },
+          { internalType: "uint256", name: "amount", type: "uint256" },
+          { internalType: "uint24", name: "fee", type: "uint24" },
+          { internalType: "uint160", name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+        internalType: "struct IQuoterV2.QuoteExactOutputSingleParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "quoteExactOutputSingle",
+    outputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { internalType: "uint160", name: "sqrtPriceX96After", type: "uint160" },
+      { internalType: "uint32", name: "initializedTicksCrossed", type: "uint32" },
+      { internalType: "uint256", name: "gasEstimate", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes", name: "path", type: "bytes" },
+      { internalType: "uint256", name: "amountOut", type: "uint256" },
+    ],
+    name: "quoteExactOutput",
+    outputs: [
+      { internalType: "uint256", name: "amountIn", type: "uint256" },
+      { internalType: "uint160[]", name: "sqrtPriceX96AfterList", type: "uint160[]" },
+      { internalType: "uint32[]", name: "initializedTicksCrossedList", type: "uint32[]" },
+      { internalType: "uint256", name: "gasEstimate", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
-// SwapRouter02 ABI - minimal interface for exactInputSingle
+// SwapRouter02 ABI - minimal interface for exact input/output swaps, multicall helpers and selfPermit
 export const SWAP_ROUTER_02_ABI = [
   {
     inputs: [
@@ -84,6 +230,66 @@ export const SWAP_ROUTER_02_ABI = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "bytes", name: "path", type: "bytes" },
+          { internalType: "address", name: "recipient", type: "address" },
+          { internalType: "uint256", name: "amountIn", type: "uint256" },
+          { internalType: "uint256", name: "amountOutMinimum", type: "uint256" },
+        ],
+        internalType: "struct IV3SwapRouter.ExactInputParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "exactInput",
+    outputs: [{ internalType: "uint256", name: "amountOut", type: "uint256" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "address", name: "tokenIn", type: "address" },
+          { internalType: "address", name: "tokenOut", type: "address" },
+          { internalType: "uint24", name: "fee", type: "uint24" },
+          { internalType: "address", name: "recipient", type: "address" },
+          { internalType: "uint256", name: "amountOut", type: "uint256" },
+          { internalType: "uint256", name: "amountInMaximum", type: "uint256" },
+          { internalType: "uint160", name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+        internalType: "struct IV3SwapRouter.ExactOutputSingleParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "exactOutputSingle",
+    outputs: [{ internalType: "uint256", name: "amountIn", type: "uint256" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "bytes", name: "path", type: "bytes" },
+          { internalType: "address", name: "recipient", type: "address" },
+          { internalType: "uint256", name: "amountOut", type: "uint256" },
+          { internalType: "uint256", name: "amountInMaximum", type: "uint256" },
+        ],
+        internalType: "struct IV3SwapRouter.ExactOutputParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "exactOutput",
+    outputs: [{ internalType: "uint256", name: "amountIn", type: "uint256" }],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [{ internalType: "uint256", name: "amountMinimum", type: "uint256" }],
     name: "unwrapWETH9",
@@ -98,6 +304,20 @@ export const SWAP_ROUTER_02_ABI = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "uint256", name: "value", type: "uint256" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+      { internalType: "uint8", name: "v", type: "uint8" },
+      { internalType: "bytes32", name: "r", type: "bytes32" },
+      { internalType: "bytes32", name: "s", type: "bytes32" },
+    ],
+    name: "selfPermitIfNecessary",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [{ internalType: "bytes[]", name: "data", type: "bytes[]" }],
     name: "multicall",
@@ -105,9 +325,90 @@ export const SWAP_ROUTER_02_ABI = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+      { internalType: "bytes[]", name: "data", type: "bytes[]" },
+    ],
+    name: "multicall",
+    outputs: [{ internalType: "bytes[]", name: "results", type: "bytes[]" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+// Uniswap V3 Pool ABI - price state and tick data
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    inputs: [],
+    name: "slot0",
+    outputs: [
+      { internalType: "uint160", name: "sqrtPriceX96", type: "uint160" },
+      { internalType: "int24", name: "tick", type: "int24" },
+      { internalType: "uint16", name: "observationIndex", type: "uint16" },
+      { internalType: "uint16", name: "observationCardinality", type: "uint16" },
+      { internalType: "uint16", name: "observationCardinalityNext", type: "uint16" },
+      { internalType: "uint8", name: "feeProtocol", type: "uint8" },
+      { internalType: "bool", name: "unlocked", type: "bool" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liquidity",
+    outputs: [{ internalType: "uint128", name: "", type: "uint128" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tickSpacing",
+    outputs: [{ internalType: "int24", name: "", type: "int24" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "int16", name: "wordPosition", type: "int16" }],
+    name: "tickBitmap",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "int24", name: "tick", type: "int24" }],
+    name: "ticks",
+    outputs: [
+      { internalType: "uint128", name: "liquidityGross", type: "uint128" },
+      { internalType: "int128", name: "liquidityNet", type: "int128" },
+      { internalType: "uint256", name: "feeGrowthOutside0X128", type: "uint256" },
+      { internalType: "uint256", name: "feeGrowthOutside1X128", type: "uint256" },
+      { internalType: "int56", name: "tickCumulativeOutside", type: "int56" },
+      { internalType: "uint160", name: "secondsPerLiquidityOutsideX128", type: "uint160" },
+      { internalType: "uint32", name: "secondsOutside", type: "uint32" },
+      { internalType: "bool", name: "initialized", type: "bool" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
-// ERC-20 ABI - for approve and allowance
+// Uniswap V3 Factory ABI - pool lookup
+export const UNISWAP_V3_FACTORY_ABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "tokenA", type: "address" },
+      { internalType: "address", name: "tokenB", type: "address" },
+      { internalType: "uint24", name: "fee", type: "uint24" },
+    ],
+    name: "getPool",
+    outputs: [{ internalType: "address", name: "pool", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// ERC-20 ABI - for approve, transfer, allowance, balances and token metadata
 export const ERC20_ABI = [
   {
     inputs: [
@@ -129,4 +430,120 @@ export const ERC20_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "transfer",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ internalType: "uint8", name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// EIP-2612 ABI - what a token needs to expose for signed approvals (permit itself is called by the router)
+export const ERC2612_ABI = [
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Permit2 ABI - allowance reads (amount, expiration and nonce per owner/token/spender) and direct approvals
+export const PERMIT2_ABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "spender", type: "address" },
+      { internalType: "uint160", name: "amount", type: "uint160" },
+      { internalType: "uint48", name: "expiration", type: "uint48" },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "user", type: "address" },
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [
+      { internalType: "uint160", name: "amount", type: "uint160" },
+      { internalType: "uint48", name: "expiration", type: "uint48" },
+      { internalType: "uint48", name: "nonce", type: "uint48" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Universal Router ABI - command execution with a deadline
+export const UNIVERSAL_ROUTER_ABI = [
+  {
+    inputs: [
+      { internalType: "bytes", name: "commands", type: "bytes" },
+      { internalType: "bytes[]", name: "inputs", type: "bytes[]" },
+      { internalType: "uint256", name: "deadline", type: "uint256" },
+    ],
+    name: "execute",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
 ] as const;
@@ -0,0 +1,249 @@
+// Aerodrome Venue Adapter
+// Solidly-style stable/volatile pools, quoted and swapped through the Aerodrome Router
+
+import { encodeFunctionData, zeroAddress } from "viem";
+import type { TokenInfo } from "./tokens";
+import { isBetterVenueQuote, type VenueAdapter, type VenueClient, type VenueHop, type VenuePool, type VenueQuote } from "./venues";
+import {
+  AERODROME_CONTRACTS,
+  AERODROME_ROUTER_ABI,
+  AERODROME_FACTORY_ABI,
+  AERODROME_POOL_ABI,
+  AERODROME_GAS_PER_HOP,
+} from "./aerodrome";
+import { enumerateTokenPaths, withinBudget } from "./routing";
+import { getTokenPriceUSD } from "./pool-inspector";
+import { validateRouteTokens } from "./security";
+
+// Divisor for the reference trade used as the mid price (Solidly pools have no slot0); the reference
+// never drops below one whole token, where integer rounding of the output would skew the price
+const MID_PRICE_REFERENCE_DIVISOR = 10_000n;
+
+function toRouterRoutes(tokens: `0x${string}`[], stable: boolean[]) {
+  return stable.map((isStable, i) => ({
+    from: tokens[i],
+    to: tokens[i + 1],
+    stable: isStable,
+    factory: AERODROME_CONTRACTS.PoolFactory as `0x${string}`,
+  }));
+}
+
+/**
+ * Router route steps for quoted Aerodrome hops
+ */
+export function hopsToRouterRoutes(hops: VenueHop[]) {
+  return toRouterRoutes(
+    [hops[0].tokenIn.address, ...hops.map(hop => hop.tokenOut.address)],
+    hops.map(hop => hop.stable === true)
+  );
+}
+
+async function getAmountOut(client: VenueClient, hops: VenueHop[], amountIn: bigint): Promise<bigint> {
+  const amounts = await client.readContract({
+    address: AERODROME_CONTRACTS.Router,
+    abi: AERODROME_ROUTER_ABI,
+    functionName: "getAmountsOut",
+    args: [amountIn, hopsToRouterRoutes(hops)],
+  });
+  // The router reports 0 for hops whose pool does not exist
+  return amounts[amounts.length - 1] ?? 0n;
+}
+
+function pairKey(a: TokenInfo, b: TokenInfo): string {
+  return [a.address.toLowerCase(), b.address.toLowerCase()].sort().join("-");
+}
+
+export const aerodromeAdapter: VenueAdapter = {
+  id: "aerodrome",
+  name: "Aerodrome",
+  router: AERODROME_CONTRACTS.Router,
+  spender: AERODROME_CONTRACTS.Router,
+  // The router only offers exact input swaps
+  supportedTradeTypes: ["exactInput"],
+
+  async discoverPools(client, tokenA, tokenB) {
+    const curves = [false, true];
+    const addresses = await Promise.all(
+      curves.map(stable =>
+        client.readContract({
+          address: AERODROME_CONTRACTS.PoolFactory,
+          abi: AERODROME_FACTORY_ABI,
+          functionName: "getPool",
+          args: [tokenA.address, tokenB.address, stable],
+        })
+      )
+    );
+
+    const pools: VenuePool[] = [];
+    addresses.forEach((address, i) => {
+      if (address !== zeroAddress) {
+        pools.push({ venue: "aerodrome", address, tokenA, tokenB, stable: curves[i] });
+      }
+    });
+    return pools;
+  },
+
+  async quote(client, tokenIn, tokenOut, amount, tradeType, { deadlineAt, costOf }) {
+    if (tradeType !== "exactInput") return null;
+
+    const paths = enumerateTokenPaths(tokenIn, tokenOut);
+
+    // Discover the pools of every pair the paths use, then expand only routes whose pools exist
+    const pairs = new Map<string, [TokenInfo, TokenInfo]>();
+    for (const tokens of paths) {
+      for (let i = 0; i < tokens.length - 1; i++) {
+        pairs.set(pairKey(tokens[i], tokens[i + 1]), [tokens[i], tokens[i + 1]]);
+      }
+    }
+
+    const discovered = await withinBudget(
+      Promise.all(
+        [...pairs.entries()].map(async ([key, [a, b]]) => [key, await aerodromeAdapter.discoverPools(client, a, b)] as const)
+      ),
+      deadlineAt
+    );
+    if (!discovered) return null;
+    const poolsByPair = new Map(discovered);
+
+    const candidates: VenueHop[][] = [];
+    for (const tokens of paths) {
+      let partial: VenueHop[][] = [[]];
+      for (let i = 0; i < tokens.length - 1; i++) {
+        const pools = poolsByPair.get(pairKey(tokens[i], tokens[i + 1])) ?? [];
+        partial = partial.flatMap(hops =>
+          pools.map(pool => [...hops, { tokenIn: tokens[i], tokenOut: tokens[i + 1], stable: pool.stable }])
+        );
+      }
+      candidates.push(...partial);
+    }
+
+    const quotes = await Promise.all(
+      candidates.map(hops =>
+        withinBudget(getAmountOut(client, hops, amount), deadlineAt).catch(() => null)
+      )
+    );
+
+    let best: VenueQuote | null = null;
+    candidates.forEach((hops, i) => {
+      const amountOut = quotes[i];
+      if (!amountOut) return;
+
+      const quote: VenueQuote = {
+        venue: "aerodrome",
+        tradeType,
+        hops,
+        amountIn: amount,
+        amountOut,
+        gasEstimate: AERODROME_GAS_PER_HOP * BigInt(hops.length),
+      };
+      if (isBetterVenueQuote(quote, best, costOf)) best = quote;
+    });
+
+    return best;
+  },
+
+  async computePrices(client, quote) {
+    const { hops, amountIn, amountOut } = quote;
+    const tokenIn = hops[0].tokenIn;
+    const tokenOut = hops[hops.length - 1].tokenOut;
+    const scale = 10 ** (tokenIn.decimals - tokenOut.decimals);
+
+    // A small trade along the same route approximates the marginal (mid) price; trades no bigger
+    // than the one-token floor show no impact against it
+    const oneToken = 10n ** BigInt(tokenIn.decimals);
+    const scaledReference = amountIn / MID_PRICE_REFERENCE_DIVISOR;
+    const referenceIn = scaledReference > oneToken ? scaledReference : oneToken;
+    const referenceOut = await getAmountOut(client, hops, referenceIn);
+
+    const midPrice = (Number(referenceOut) / Number(referenceIn)) * scale;
+    const executionPrice = (Number(amountOut) / Number(amountIn)) * scale;
+
+    return {
+      midPrice,
+      midPriceAfter: null,
+      executionPrice,
+      priceImpact: Math.max(0, (1 - executionPrice / midPrice) * 100),
+    };
+  },
+
+  async inspectPools(client, hops) {
+    const pools = await Promise.all(
+      hops.map(async hop => {
+        const address = await client.readContract({
+          address: AERODROME_CONTRACTS.PoolFactory,
+          abi: AERODROME_FACTORY_ABI,
+          functionName: "getPool",
+          args: [hop.tokenIn.address, hop.tokenOut.address, hop.stable === true],
+        });
+        if (address === zeroAddress) return null;
+
+        const [[reserve0, reserve1], token0Address] = await Promise.all([
+          client.readContract({ address, abi: AERODROME_POOL_ABI, functionName: "getReserves" }),
+          client.readContract({ address, abi: AERODROME_POOL_ABI, functionName: "token0" }),
+        ]);
+        const [token0, token1] = token0Address.toLowerCase() === hop.tokenIn.address.toLowerCase()
+          ? [hop.tokenIn, hop.tokenOut]
+          : [hop.tokenOut, hop.tokenIn];
+
+        const [price0, price1] = await Promise.all([
+          getTokenPriceUSD(client, token0).catch(() => null),
+          getTokenPriceUSD(client, token1).catch(() => null),
+        ]);
+        const tvlUSD = price0 !== null && price1 !== null
+          ? (Number(reserve0) / 10 ** token0.decimals) * price0 + (Number(reserve1) / 10 ** token1.decimals) * price1
+          : null;
+
+        return { address, stable: hop.stable === true, token0, token1, balance0: reserve0, balance1: reserve1, tvlUSD };
+      })
+    );
+
+    const found = pools.filter((pool): pool is NonNullable<typeof pool> => pool !== null);
+    const poolLiquidityUSD = found.length === hops.length && found.every(pool => pool.tvlUSD !== null)
+      ? Math.min(...found.map(pool => pool.tvlUSD as number))
+      : null;
+
+    return { pools: found, poolLiquidityUSD };
+  },
+
+  validateRoute(hops, tokenInSymbol, tokenOutSymbol, importedTokens) {
+    const tokens = validateRouteTokens(hops, tokenInSymbol, tokenOutSymbol, importedTokens);
+    const stable = hops.map((hop, i) => {
+      if (typeof hop.stable !== "boolean") {
+        throw new Error(`Aerodrome hop ${i} must specify a stable or volatile pool`);
+      }
+      return hop.stable;
+    });
+    return { tokens, stable };
+  },
+
+  buildSwap(route, params) {
+    if (params.tradeType !== "exactInput") {
+      throw new Error("Aerodrome only supports exact input swaps");
+    }
+    if (params.selfPermit) throw new Error("Aerodrome router does not support selfPermit");
+    if (!route.stable) throw new Error("Aerodrome route is missing pool types");
+
+    const routes = toRouterRoutes(route.tokens, route.stable);
+    const deadline = BigInt(params.deadline);
+
+    if (params.isSellingETH) {
+      return {
+        data: encodeFunctionData({
+          abi: AERODROME_ROUTER_ABI,
+          functionName: "swapExactETHForTokens",
+          args: [params.amountOut, routes, params.recipient, deadline],
+        }),
+        value: params.amountIn,
+      };
+    }
+
+    return {
+      data: encodeFunctionData({
+        abi: AERODROME_ROUTER_ABI,
+        functionName: params.isBuyingETH ? "swapExactTokensForETH" : "swapExactTokensForTokens",
+        args: [params.amountIn, params.amountOut, routes, params.recipient, deadline],
+      }),
+      value: 0n,
+    };
+  },
+};
@@ -0,0 +1,96 @@
+// Uniswap V3 Venue Adapter
+// Multi-hop routing through QuoterV2 and the local engine, swaps through SwapRouter02
+
+import { zeroAddress } from "viem";
+import type { VenueAdapter, VenuePool, VenueQuote, VenueHop } from "./venues";
+import { UNISWAP_CONTRACTS, UNISWAP_V3_FACTORY_ABI } from "./uniswap";
+import { ROUTE_FEE_TIERS, findBestRoute, RouteHop } from "./routing";
+import { computeRoutePrices } from "./price-impact";
+import { inspectRoutePools } from "./pool-inspector";
+import { validateRouteHops } from "./security";
+import { buildSwapCalldata } from "./swap-builder";
+
+function toRouteHops(hops: VenueHop[]): RouteHop[] {
+  return hops.map(hop => {
+    if (hop.fee === undefined) throw new Error("Uniswap V3 hops need a fee tier");
+    return { tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, fee: hop.fee };
+  });
+}
+
+export const uniswapV3Adapter: VenueAdapter = {
+  id: "uniswap-v3",
+  name: "Uniswap V3",
+  router: UNISWAP_CONTRACTS.SwapRouter02,
+  spender: UNISWAP_CONTRACTS.SwapRouter02,
+  supportedTradeTypes: ["exactInput", "exactOutput"],
+
+  async discoverPools(client, tokenA, tokenB) {
+    const addresses = await Promise.all(
+      ROUTE_FEE_TIERS.map(fee =>
+        client.readContract({
+          address: UNISWAP_CONTRACTS.UniswapV3Factory,
+          abi: UNISWAP_V3_FACTORY_ABI,
+          functionName: "getPool",
+          args: [tokenA.address, tokenB.address, fee],
+        })
+      )
+    );
+
+    const pools: VenuePool[] = [];
+    addresses.forEach((address, i) => {
+      if (address !== zeroAddress) {
+        pools.push({ venue: "uniswap-v3", address, tokenA, tokenB, fee: ROUTE_FEE_TIERS[i] });
+      }
+    });
+    return pools;
+  },
+
+  async quote(client, tokenIn, tokenOut, amount, tradeType, { deadlineAt, costOf }) {
+    const route = await findBestRoute(
+      client,
+      tokenIn,
+      tokenOut,
+      amount,
+      tradeType,
+      deadlineAt,
+      costOf ? quoted => costOf(quoted.gasEstimate, quoted.hops.length) : undefined
+    );
+    if (!route) return null;
+
+    const quote: VenueQuote = {
+      venue: "uniswap-v3",
+      tradeType,
+      hops: route.hops,
+      amountIn: route.amountIn,
+      amountOut: route.amountOut,
+      gasEstimate: route.gasEstimate,
+      path: route.path,
+      sqrtPriceX96AfterList: route.sqrtPriceX96AfterList,
+    };
+    return quote;
+  },
+
+  computePrices(client, quote) {
+    return computeRoutePrices(
+      client,
+      toRouteHops(quote.hops),
+      quote.amountIn,
+      quote.amountOut,
+      quote.sqrtPriceX96AfterList
+    );
+  },
+
+  async inspectPools(client, hops) {
+    const { pools, poolLiquidityUSD } = await inspectRoutePools(client, toRouteHops(hops));
+    return { pools, poolLiquidityUSD };
+  },
+
+  validateRoute(hops, tokenInSymbol, tokenOutSymbol, importedTokens) {
+    return validateRouteHops(hops, tokenInSymbol, tokenOutSymbol, importedTokens);
+  },
+
+  buildSwap(route, params) {
+    if (!route.fees) throw new Error("Uniswap V3 route is missing fee tiers");
+    return buildSwapCalldata({ ...params, tokens: route.tokens, fees: route.fees });
+  },
+};
@@ -0,0 +1,151 @@
+// DEX Venue Adapters
+// Common interface for quoting, pool discovery and calldata building across DEX venues on Base
+
+import type { PublicClient } from "viem";
+import type { TokenInfo } from "./tokens";
+import type { TradeType } from "./routing";
+import type { RoutePrices } from "./price-impact";
+import type { RouteHopDescriptor } from "./security";
+import type { SelfPermitParams, SwapBuildResult } from "./swap-builder";
+import { uniswapV3Adapter } from "./venue-uniswap-v3";
+import { aerodromeAdapter } from "./venue-aerodrome";
+
+export type VenueId = "uniswap-v3" | "aerodrome";
+
+// A hop through one pool: V3 pools are identified by fee tier, Solidly pools by curve type
+export interface VenueHop {
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  fee?: number;
+  stable?: boolean;
+}
+
+export interface VenueQuote {
+  venue: VenueId;
+  tradeType: TradeType;
+  hops: VenueHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+  // Uniswap V3 only: packed path and per-hop pool prices after the swap
+  path?: `0x${string}`;
+  sqrtPriceX96AfterList?: readonly bigint[];
+}
+
+export interface VenuePool {
+  venue: VenueId;
+  address: `0x${string}`;
+  tokenA: TokenInfo;
+  tokenB: TokenInfo;
+  fee?: number;
+  stable?: boolean;
+}
+
+// Pool state reported with a quote (V3-only fields are absent for other venues)
+export interface VenuePoolState {
+  address: `0x${string}`;
+  fee?: number;
+  stable?: boolean;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  balance0: bigint;
+  balance1: bigint;
+  tvlUSD: number | null;
+  liquidity?: bigint;
+  tick?: number;
+  tickSpacing?: number;
+}
+
+// Route re-derived server-side from client hop descriptors
+export interface ValidatedVenueRoute {
+  tokens: `0x${string}`[];
+  fees?: number[];
+  stable?: boolean[];
+}
+
+export interface VenueSwapParams {
+  tradeType: TradeType;
+  recipient: `0x${string}`;
+  // Exact input: amount sold. Exact output: maximum amount sold
+  amountIn: bigint;
+  // Exact input: minimum received. Exact output: amount bought
+  amountOut: bigint;
+  isSellingETH: boolean;
+  isBuyingETH: boolean;
+  deadline: number;
+  // Signed EIP-2612 permit the router redeems before swapping (SwapRouter02 only)
+  selfPermit?: SelfPermitParams;
+}
+
+// Gas cost of a quote in raw units of the token being optimized
+export type VenueCostFn = (gasEstimate: bigint, hops: number) => bigint;
+
+export type VenueClient = Pick<PublicClient, "readContract" | "getBlockNumber">;
+
+export interface VenueAdapter {
+  id: VenueId;
+  name: string;
+  // Contract the swap transaction is sent to
+  router: `0x${string}`;
+  // Contract that needs the ERC-20 allowance
+  spender: `0x${string}`;
+  supportedTradeTypes: TradeType[];
+
+  /** Pools that exist on this venue for a token pair */
+  discoverPools(client: VenueClient, tokenA: TokenInfo, tokenB: TokenInfo): Promise<VenuePool[]>;
+
+  /** Best route between two pool tokens (net of gas when costOf is given), or null */
+  quote(
+    client: VenueClient,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amount: bigint,
+    tradeType: TradeType,
+    options: { deadlineAt: number; costOf?: VenueCostFn }
+  ): Promise<VenueQuote | null>;
+
+  /** Mid price, execution price and price impact of a quote */
+  computePrices(client: VenueClient, quote: VenueQuote): Promise<RoutePrices>;
+
+  /** State and USD TVL of the pools a quote trades through */
+  inspectPools(
+    client: VenueClient,
+    hops: VenueHop[]
+  ): Promise<{ pools: VenuePoolState[]; poolLiquidityUSD: number | null }>;
+
+  /** Re-derive and whitelist-check a client route (plus the wallet's imported tokens); throws on anything invalid */
+  validateRoute(
+    hops: RouteHopDescriptor[],
+    tokenInSymbol: string,
+    tokenOutSymbol: string,
+    importedTokens?: TokenInfo[]
+  ): ValidatedVenueRoute;
+
+  /** Router calldata and ETH value for a validated route */
+  buildSwap(route: ValidatedVenueRoute, params: VenueSwapParams): SwapBuildResult;
+}
+
+/**
+ * Amount being optimized after gas, as netAmount does for V3 routes:
+ * output minus gas for exact input, input plus gas for exact output
+ */
+export function venueNetAmount(quote: VenueQuote, costOf?: VenueCostFn): bigint {
+  const cost = costOf ? costOf(quote.gasEstimate, quote.hops.length) : 0n;
+  return quote.tradeType === "exactOutput" ? quote.amountIn + cost : quote.amountOut - cost;
+}
+
+/**
+ * Whether venue quote a beats b after gas
+ */
+export function isBetterVenueQuote(a: VenueQuote, b: VenueQuote | null, costOf?: VenueCostFn): boolean {
+  if (!b) return true;
+  const netA = venueNetAmount(a, costOf);
+  const netB = venueNetAmount(b, costOf);
+  return a.tradeType === "exactOutput" ? netA < netB : netA > netB;
+}
+
+export const VENUE_ADAPTERS: VenueAdapter[] = [uniswapV3Adapter, aerodromeAdapter];
+
+export function getVenueAdapter(id: string): VenueAdapter | undefined {
+  return VENUE_ADAPTERS.find(adapter => adapter.id === id);
+}